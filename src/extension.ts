@@ -2,17 +2,29 @@ import * as vscode from 'vscode';
 import { GithubService } from './services/githubService';
 import { BackupManager } from './services/backupManager';
 import { ConfigManager } from './services/configManager';
+import { EncryptionService } from './services/encryptionService';
+import { SecretScanner } from './services/secretScanner';
 import { Version0WebviewProvider } from './ui/Version0WebviewProvider';
+import { BackupTreeProvider, BackupItem } from './ui/BackupTreeProvider';
+import { BackupContentProvider } from './ui/BackupContentProvider';
+import { confirmRestore } from './ui/restoreConfirmation';
+import { showSecretFindings } from './ui/secretScanReport';
+import { getFolderGitHubRepositories } from './ui/githubRepositories';
+import { createIssue } from './ui/issues';
+import { errorMessage } from './utils/errorHandler';
 
 let backupManager: BackupManager | undefined;
 let githubService: GithubService | undefined;
 let webviewProvider: Version0WebviewProvider | undefined;
+let backupTreeProvider: BackupTreeProvider | undefined;
 
 export async function activate(context: vscode.ExtensionContext) {
   // Initialize services
   const configManager = new ConfigManager(context);
   githubService = new GithubService(configManager);
-  backupManager = new BackupManager(githubService, configManager);
+  const encryptionService = new EncryptionService(configManager);
+  const secretScanner = new SecretScanner(configManager);
+  backupManager = new BackupManager(githubService, configManager, encryptionService, secretScanner);
   
   // Initialize new Webview Provider, passing GithubService as well
   webviewProvider = new Version0WebviewProvider(context, configManager, backupManager, githubService);
@@ -21,6 +33,27 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(Version0WebviewProvider.viewType, webviewProvider)
   );
+
+  // Register the native Backups tree view
+  backupTreeProvider = new BackupTreeProvider(backupManager, configManager);
+  context.subscriptions.push(
+    backupTreeProvider,
+    vscode.window.registerTreeDataProvider(BackupTreeProvider.viewType, backupTreeProvider)
+  );
+
+  // Report secrets found while backing up, with allow-listing
+  context.subscriptions.push(
+    backupManager.onDidFindSecrets(({ folder, findings, blocked, operation }) => {
+      showSecretFindings(secretScanner, folder, findings, blocked, operation).catch(err => {
+        console.error('Version0: Error showing secret scan findings:', err);
+      });
+    })
+  );
+
+  // Serve backup file contents to the diff editor
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(BackupContentProvider.scheme, new BackupContentProvider(backupManager))
+  );
   
   // Register commands
   const startCommand = vscode.commands.registerCommand('version0.start', () => {
@@ -34,18 +67,479 @@ export async function activate(context: vscode.ExtensionContext) {
   });
 
   const restoreLatestCommand = vscode.commands.registerCommand('version0.restoreLatestBackup', async () => {
+    const manager = backupManager;
     try {
-      await backupManager?.restoreLatestBackup();
-    } catch (err: any) {
-      vscode.window.showErrorMessage(`Version0: ${err.message}`);
+      const folder = await manager?.pickFolder('Select the workspace folder to restore');
+      if (!folder || !manager) {
+        return;
+      }
+      const branchName = await confirmRestore(manager, folder);
+      if (!branchName) {
+        return;
+      }
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Version0: Restoring from ${branchName}...`
+      }, () => manager.restoreFromBackup(branchName, folder));
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
     }
   });
   
+  const changeTargetRepoCommand = vscode.commands.registerCommand('version0.changeTargetRepository', async () => {
+    const folder = await backupManager?.pickFolder('Select the workspace folder whose target repository to change');
+    if (!folder) {
+      return;
+    }
+    const currentUrl = configManager.getTargetBackupRepoUrl(folder.uri);
+    const choice = await vscode.window.showQuickPick(
+      currentUrl ? ['Change Target Repository', 'Clear Target Repository'] : ['Change Target Repository'],
+      { placeHolder: currentUrl ? `Current target for '${folder.name}': ${currentUrl}` : `No target repository set for '${folder.name}'` }
+    );
+    if (choice === 'Clear Target Repository') {
+      await configManager.clearTargetBackupRepoUrl(folder.uri);
+      vscode.window.showInformationMessage(`Target backup repository for '${folder.name}' cleared.`);
+    } else if (choice === 'Change Target Repository') {
+      const newUrl = await vscode.window.showInputBox({
+        prompt: `Target backup repository URL for '${folder.name}'`,
+        placeHolder: 'e.g., https://github.com/user/repo.git, git@host:team/repo.git or /path/to/backup.git',
+        value: currentUrl,
+        validateInput: value => value && (value.startsWith('https://') || value.includes(':') || value.startsWith('/')) ? undefined : 'Invalid repository URL format.'
+      });
+      if (!newUrl) {
+        return;
+      }
+      await configManager.setTargetBackupRepoUrl(folder.uri, newUrl);
+      vscode.window.showInformationMessage(`Target backup repository for '${folder.name}' set to ${newUrl}.`);
+    } else {
+      return;
+    }
+    webviewProvider?.updateWebviewState();
+  });
+
+  const pruneBackupsCommand = vscode.commands.registerCommand('version0.pruneBackups', async () => {
+    try {
+      const folder = await backupManager?.pickFolder('Select the workspace folder whose backups to prune');
+      if (!folder || !backupManager) {
+        return;
+      }
+      const preview = await backupManager.pruneBackups(folder, true);
+      if (preview.pruned.length === 0) {
+        vscode.window.showInformationMessage(`Version0: Nothing to prune for '${folder.name}' (${preview.kept.length} backups kept).`);
+        return;
+      }
+      const listed = preview.pruned.slice(0, 20).join('\n');
+      const more = preview.pruned.length > 20 ? `\n...and ${preview.pruned.length - 20} more` : '';
+      const confirmation = await vscode.window.showWarningMessage(
+        `Delete ${preview.pruned.length} backup branches of '${folder.name}' from the target repository? ${preview.kept.length} will be kept.`,
+        { modal: true, detail: listed + more },
+        'Prune'
+      );
+      if (confirmation !== 'Prune') {
+        return;
+      }
+      const result = await backupManager.pruneBackups(folder, false);
+      if (result.failed.length > 0) {
+        vscode.window.showWarningMessage(`Version0: Pruned ${result.pruned.length} backup branches, ${result.failed.length} could not be deleted.`);
+      } else {
+        vscode.window.showInformationMessage(`Version0: Pruned ${result.pruned.length} backup branches.`);
+      }
+      webviewProvider?.refreshBranches();
+      backupTreeProvider?.refresh();
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  const uploadPendingBackupsCommand = vscode.commands.registerCommand('version0.uploadPendingBackups', async (folder?: vscode.WorkspaceFolder) => {
+    const manager = backupManager;
+    if (!manager) {
+      return;
+    }
+    try {
+      const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Version0: Uploading pending backups...'
+      }, () => manager.uploadPendingBackups(folder));
+      if (result.uploaded === 0 && result.remaining === 0) {
+        vscode.window.showInformationMessage('Version0: No backups are waiting for upload.');
+      } else if (result.remaining > 0) {
+        vscode.window.showWarningMessage(`Version0: Uploaded ${result.uploaded} backups, ${result.remaining} still pending. They will be retried automatically.`);
+      } else {
+        vscode.window.showInformationMessage(`Version0: Uploaded ${result.uploaded} pending backups.`);
+      }
+      webviewProvider?.refreshBranches();
+      backupTreeProvider?.refresh();
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  const createIssueCommand = vscode.commands.registerCommand('version0.createIssue', async () => {
+    try {
+      const folder = await backupManager?.pickFolder('Select the workspace folder to file an issue for');
+      if (!folder || !backupManager || !githubService) {
+        return;
+      }
+      const repos = await getFolderGitHubRepositories(backupManager, githubService, folder);
+      if (repos.length === 0) {
+        vscode.window.showInformationMessage(`Version0: Neither the target repository nor origin of '${folder.name}' is on GitHub.`);
+        return;
+      }
+      let repoUrl = repos[0].repoUrl;
+      if (repos.length > 1) {
+        const picked = await vscode.window.showQuickPick(repos.map(repo => ({ label: repo.label, description: repo.repoUrl })), {
+          placeHolder: 'Select the repository to file the issue in'
+        });
+        if (!picked) {
+          return;
+        }
+        repoUrl = picked.description;
+      }
+      if (await createIssue(githubService, repoUrl)) {
+        await webviewProvider?.refreshIssues();
+      }
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  // Encryption key commands: the key never leaves secret storage except through an export
+  const exportEncryptionKeyCommand = vscode.commands.registerCommand('version0.exportEncryptionKey', async () => {
+    const exported = await encryptionService.exportKey();
+    if (!exported) {
+      vscode.window.showErrorMessage('Version0: No encryption key exists yet. It is created with the first encrypted backup, or can be imported.');
+      return;
+    }
+    const choice = await vscode.window.showQuickPick(['Copy to Clipboard', 'Save to File...'], {
+      placeHolder: 'Export the backup encryption key. Anyone with the key can read your encrypted backups.'
+    });
+    try {
+      if (choice === 'Copy to Clipboard') {
+        await vscode.env.clipboard.writeText(exported);
+        vscode.window.showInformationMessage('Version0: Encryption key copied to the clipboard.');
+      } else if (choice === 'Save to File...') {
+        const uri = await vscode.window.showSaveDialog({ filters: { 'Version0 Key': ['key'] } });
+        if (uri) {
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(exported + '\n'));
+          vscode.window.showInformationMessage(`Version0: Encryption key saved to ${uri.fsPath}.`);
+        }
+      }
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  const importEncryptionKeyCommand = vscode.commands.registerCommand('version0.importEncryptionKey', async () => {
+    const choice = await vscode.window.showQuickPick(['Paste Key', 'Load from File...'], {
+      placeHolder: 'Import a backup encryption key exported on another machine'
+    });
+    let exported: string | undefined;
+    try {
+      if (choice === 'Paste Key') {
+        exported = await vscode.window.showInputBox({ prompt: 'Paste the exported encryption key', password: true, ignoreFocusOut: true });
+      } else if (choice === 'Load from File...') {
+        const uris = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { 'Version0 Key': ['key'], 'All Files': ['*'] } });
+        if (uris && uris.length > 0) {
+          exported = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+        }
+      }
+      if (!exported) {
+        return;
+      }
+      if (await encryptionService.hasKey()) {
+        const confirmation = await vscode.window.showWarningMessage(
+          'Replace the current encryption key? Backups encrypted with it cannot be restored here unless it is imported again.',
+          { modal: true },
+          'Replace Key'
+        );
+        if (confirmation !== 'Replace Key') {
+          return;
+        }
+      }
+      const keyId = await encryptionService.importKey(exported);
+      vscode.window.showInformationMessage(`Version0: Imported encryption key ${keyId}.`);
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  // Backups tree view commands
+  const refreshBackupsCommand = vscode.commands.registerCommand('version0.refreshBackups', () => {
+    backupTreeProvider?.refresh();
+  });
+
+  const restoreBackupCommand = vscode.commands.registerCommand('version0.restoreBackup', async (item: BackupItem) => {
+    const manager = backupManager;
+    try {
+      if (!manager || !await confirmRestore(manager, item.folder, item.backup.branchName)) {
+        return;
+      }
+      await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Version0: Restoring from ${item.backup.branchName}...`
+      }, () => manager.restoreFromBackup(item.backup.branchName, item.folder));
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  const compareBackupCommand = vscode.commands.registerCommand('version0.compareWithPreviousBackup', async (item: BackupItem) => {
+    const target = backupManager?.getBackupTarget(item.folder);
+    const previous = await backupTreeProvider?.getPreviousBackup(item);
+    if (!target || !previous) {
+      vscode.window.showInformationMessage(`Version0: '${item.backup.branchName}' has no earlier backup to compare with.`);
+      return;
+    }
+    const url = target.getCompareWebUrl(previous.branchName, item.backup.branchName);
+    if (!url) {
+      vscode.window.showInformationMessage(`Version0: The target repository of '${item.folder.name}' has no web view to compare backups in.`);
+      return;
+    }
+    vscode.env.openExternal(vscode.Uri.parse(url));
+  });
+
+  const compareWithWorkingTreeCommand = vscode.commands.registerCommand('version0.compareWithWorkingTree',
+    async (target?: BackupItem | { folder: vscode.WorkspaceFolder; branchName: string }) => {
+      const manager = backupManager;
+      try {
+        let folder: vscode.WorkspaceFolder | undefined;
+        let branchName: string | undefined;
+        if (target instanceof BackupItem) {
+          folder = target.folder;
+          branchName = target.backup.branchName;
+        } else if (target) {
+          folder = target.folder;
+          branchName = target.branchName;
+        } else {
+          // Invoked from the Command Palette: let the user choose the backup
+          folder = await manager?.pickFolder('Select the workspace folder to compare');
+          if (!folder || !manager) {
+            return;
+          }
+          const backups = await manager.listBackups(folder);
+          const picked = await vscode.window.showQuickPick(
+            backups.map(b => ({ label: b.branchName, description: b.note })),
+            { placeHolder: 'Select the backup to compare with the working tree' }
+          );
+          branchName = picked?.label;
+        }
+        if (!folder || !branchName || !manager) {
+          return;
+        }
+
+        const compareBranch = branchName;
+        const changes = await vscode.window.withProgress({
+          location: vscode.ProgressLocation.Notification,
+          title: `Version0: Comparing ${branchName} with the working tree...`
+        }, () => manager.getBackupChanges(compareBranch, folder));
+        if (changes.length === 0) {
+          vscode.window.showInformationMessage(`Version0: The working tree of '${folder.name}' matches backup '${branchName}'.`);
+          return;
+        }
+
+        const statusLabels = { added: 'Added since backup', modified: 'Modified', deleted: 'Deleted since backup' };
+        const picked = await vscode.window.showQuickPick(
+          changes.map(change => ({ label: change.path, description: statusLabels[change.status], change })),
+          { placeHolder: `${changes.length} files differ from '${branchName}'. Select files to open in the diff editor`, canPickMany: true }
+        );
+        for (const { change } of picked || []) {
+          const left = BackupContentProvider.toUri(folder, change.status === 'added' ? '' : branchName, change.path);
+          const right = change.status === 'deleted'
+            ? BackupContentProvider.toUri(folder, '', change.path)
+            : vscode.Uri.joinPath(folder.uri, change.path);
+          await vscode.commands.executeCommand('vscode.diff', left, right, `${change.path} (${branchName} ↔ Working Tree)`, { preview: false });
+        }
+      } catch (err: unknown) {
+        vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+      }
+    });
+
+  const restoreFilesCommand = vscode.commands.registerCommand('version0.restoreFilesFromBackup',
+    async (target?: vscode.Uri | BackupItem | { folder: vscode.WorkspaceFolder; branchName: string }, selection?: vscode.Uri[]) => {
+      const manager = backupManager;
+      try {
+        if (!manager) {
+          return;
+        }
+        let folder: vscode.WorkspaceFolder | undefined;
+        let branchName: string | undefined;
+        // Paths to restore, relative to the folder; empty means "choose from the whole backup"
+        let pathPrefixes: string[] = [];
+        if (target instanceof vscode.Uri) {
+          // Invoked from the Explorer: restore the clicked (or all selected) files and folders
+          folder = vscode.workspace.getWorkspaceFolder(target);
+          if (!folder) {
+            vscode.window.showErrorMessage('Version0: The selected file is not part of a workspace folder.');
+            return;
+          }
+          const targetFolder = folder;
+          const uris = selection && selection.length > 0 ? selection : [target];
+          pathPrefixes = uris
+            .filter(uri => vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() === targetFolder.uri.toString())
+            .map(uri => vscode.workspace.asRelativePath(uri, false));
+          // Restoring the folder root itself means choosing from the whole backup
+          if (uris.some(uri => uri.toString() === targetFolder.uri.toString())) {
+            pathPrefixes = [];
+          }
+        } else if (target instanceof BackupItem) {
+          folder = target.folder;
+          branchName = target.backup.branchName;
+        } else if (target) {
+          folder = target.folder;
+          branchName = target.branchName;
+        } else {
+          folder = await manager.pickFolder('Select the workspace folder to restore into');
+        }
+        if (!folder) {
+          return;
+        }
+        if (!branchName) {
+          const backups = await manager.listBackups(folder);
+          if (backups.length === 0) {
+            vscode.window.showInformationMessage(`Version0: No backups found for '${folder.name}'.`);
+            return;
+          }
+          const picked = await vscode.window.showQuickPick(
+            backups.map(b => ({ label: b.branchName, description: b.note })),
+            { placeHolder: 'Select the backup to restore from' }
+          );
+          branchName = picked?.label;
+          if (!branchName) {
+            return;
+          }
+        }
+
+        const restoreFolder = folder;
+        const restoreBranch = branchName;
+        let files: string[] = [];
+        if (pathPrefixes.length === 0) {
+          files = await manager.listBackupFiles(restoreBranch, restoreFolder);
+        } else {
+          for (const prefix of pathPrefixes) {
+            files.push(...await manager.listBackupFiles(restoreBranch, restoreFolder, prefix));
+          }
+        }
+        if (files.length === 0) {
+          vscode.window.showInformationMessage(`Version0: '${restoreBranch}' does not contain ${pathPrefixes.length > 0 ? pathPrefixes.join(', ') : 'any files'}.`);
+          return;
+        }
+
+        // Paths chosen in the Explorer are preselected; otherwise the user picks from the whole backup
+        const picked = await vscode.window.showQuickPick(
+          files.map(file => ({ label: file, picked: pathPrefixes.length > 0 })),
+          { placeHolder: `Select the files to restore from '${restoreBranch}'`, canPickMany: true }
+        );
+        if (!picked || picked.length === 0) {
+          return;
+        }
+        const confirmation = await vscode.window.showWarningMessage(
+          `Overwrite ${picked.length} file${picked.length === 1 ? '' : 's'} in '${restoreFolder.name}' with their contents from '${restoreBranch}'?`,
+          { modal: true },
+          'Restore'
+        );
+        if (confirmation !== 'Restore') {
+          return;
+        }
+        const restored = await vscode.window.withProgress({
+          location: vscode.ProgressLocation.Notification,
+          title: `Version0: Restoring files from ${restoreBranch}...`
+        }, () => manager.restoreBackupFiles(restoreBranch, picked.map(item => item.label), restoreFolder));
+        vscode.window.showInformationMessage(`Version0: Restored ${restored} file${restored === 1 ? '' : 's'} from '${restoreBranch}'.`);
+      } catch (err: unknown) {
+        vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+      }
+    });
+
+  const openBackupOnGitHubCommand = vscode.commands.registerCommand('version0.openBackupOnGitHub', (item: BackupItem) => {
+    const url = backupManager?.getBackupTarget(item.folder)?.getBranchWebUrl(item.backup.branchName);
+    if (!url) {
+      vscode.window.showErrorMessage('Version0: The target repository has no GitHub page for this backup.');
+      return;
+    }
+    vscode.env.openExternal(vscode.Uri.parse(url));
+  });
+
+  const markMilestoneCommand = vscode.commands.registerCommand('version0.markMilestone', async (item: BackupItem) => {
+    const manager = backupManager;
+    const target = manager?.getBackupTarget(item.folder);
+    if (!manager || !target) {
+      return;
+    }
+    const title = await vscode.window.showInputBox({
+      prompt: `Title of the milestone for '${item.backup.branchName}'`,
+      placeHolder: 'e.g. Delivered to client (leave empty for "Milestone vX.0")'
+    });
+    if (title === undefined) {
+      return;
+    }
+    let createRelease = false;
+    if (target.supportsReleases) {
+      const choice = await vscode.window.showQuickPick([
+        { label: 'Tag Only', release: false },
+        { label: 'Tag and Create GitHub Release', detail: 'Release notes are built from the notes of the backups since the last milestone', release: true }
+      ], { placeHolder: 'Publish the milestone as a GitHub Release?' });
+      if (!choice) {
+        return;
+      }
+      createRelease = choice.release;
+    }
+    try {
+      const milestone = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Version0: Marking ${item.backup.branchName} as milestone...`
+      }, () => manager.markMilestone(item.backup.branchName, title, createRelease, item.folder));
+      const message = `Version0: '${item.backup.branchName}' is now milestone ${milestone.tagName}.`;
+      if (milestone.releaseUrl) {
+        const open = await vscode.window.showInformationMessage(message, 'Open Release');
+        if (open) {
+          vscode.env.openExternal(vscode.Uri.parse(milestone.releaseUrl));
+        }
+      } else {
+        vscode.window.showInformationMessage(message);
+      }
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
+  const deleteBackupCommand = vscode.commands.registerCommand('version0.deleteBackup', async (item: BackupItem) => {
+    const confirmation = await vscode.window.showWarningMessage(
+      `Delete backup branch '${item.backup.branchName}' from the target repository? This cannot be undone.`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirmation !== 'Delete') {
+      return;
+    }
+    try {
+      await backupManager?.deleteBackup(item.backup.branchName, item.folder);
+      vscode.window.showInformationMessage(`Version0: Deleted backup branch '${item.backup.branchName}'.`);
+      webviewProvider?.refreshBranches();
+    } catch (err: unknown) {
+      vscode.window.showErrorMessage(`Version0: ${errorMessage(err)}`);
+    }
+  });
+
   // Register disposables
   context.subscriptions.push(
     startCommand,
     triggerBackupCommand,
     restoreLatestCommand,
+    changeTargetRepoCommand,
+    pruneBackupsCommand,
+    uploadPendingBackupsCommand,
+    createIssueCommand,
+    exportEncryptionKeyCommand,
+    importEncryptionKeyCommand,
+    refreshBackupsCommand,
+    restoreBackupCommand,
+    compareBackupCommand,
+    compareWithWorkingTreeCommand,
+    restoreFilesCommand,
+    openBackupOnGitHubCommand,
+    markMilestoneCommand,
+    deleteBackupCommand,
     githubService,
     backupManager
   );
@@ -76,4 +570,5 @@ export function deactivate() {
   backupManager = undefined;
   githubService = undefined;
   webviewProvider = undefined;
+  backupTreeProvider = undefined;
 } 
\ No newline at end of file
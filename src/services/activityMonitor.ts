@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { BackupTrigger } from '../types/interfaces';
+
+interface IFolderActivity {
+  saves: number;
+  editStart: number | undefined;
+  lastEdit: number | undefined;
+  hasActivity: boolean;
+  idleTimer: NodeJS.Timeout | undefined;
+  debounceTimer: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Watches editor activity per workspace folder and reports when an activity trigger
+ * fires: after N saves, after a stretch of editing followed by idle time, or when the
+ * window loses focus after activity in the folder. Reports are debounced per folder;
+ * the minimum gap between backups is enforced by the caller.
+ */
+export class ActivityMonitor implements vscode.Disposable {
+  private configManager: ConfigManager;
+  private onTrigger: (folder: vscode.WorkspaceFolder, trigger: BackupTrigger) => void;
+  private activity = new Map<string, IFolderActivity>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(configManager: ConfigManager, onTrigger: (folder: vscode.WorkspaceFolder, trigger: BackupTrigger) => void) {
+    this.configManager = configManager;
+    this.onTrigger = onTrigger;
+
+    this.disposables.push(
+      vscode.workspace.onDidSaveTextDocument(document => this.handleSave(document)),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (e.contentChanges.length > 0) {
+          this.handleEdit(e.document);
+        }
+      }),
+      vscode.window.onDidChangeWindowState(state => {
+        if (!state.focused) {
+          this.handleWindowBlur();
+        }
+      })
+    );
+  }
+
+  /**
+   * Trigger modes currently enabled in the settings.
+   */
+  public getActiveTriggers(): BackupTrigger[] {
+    const triggers = this.configManager.getBackupTriggers();
+    const active: BackupTrigger[] = [];
+    if (triggers.saveEnabled) active.push('save');
+    if (triggers.idleEnabled) active.push('idle');
+    if (triggers.windowBlurEnabled) active.push('windowBlur');
+    return active;
+  }
+
+  private handleSave(document: vscode.TextDocument): void {
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!folder) {
+      return;
+    }
+    const state = this.getActivity(folder);
+    state.saves++;
+    state.hasActivity = true;
+
+    const triggers = this.configManager.getBackupTriggers();
+    if (triggers.saveEnabled && state.saves >= Math.max(1, triggers.saveCount)) {
+      this.schedule(folder, 'save');
+    }
+  }
+
+  private handleEdit(document: vscode.TextDocument): void {
+    if (document.uri.scheme !== 'file') {
+      return;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    if (!folder) {
+      return;
+    }
+    const now = Date.now();
+    const state = this.getActivity(folder);
+    state.hasActivity = true;
+    state.editStart = state.editStart ?? now;
+    state.lastEdit = now;
+
+    const triggers = this.configManager.getBackupTriggers();
+    if (!triggers.idleEnabled) {
+      return;
+    }
+    // Every edit restarts the idle countdown
+    if (state.idleTimer) {
+      clearTimeout(state.idleTimer);
+    }
+    state.idleTimer = setTimeout(() => {
+      state.idleTimer = undefined;
+      const editedMs = (state.lastEdit ?? now) - (state.editStart ?? now);
+      // The editing session ends with this idle period, whether or not it was long enough
+      state.editStart = undefined;
+      if (editedMs >= triggers.editMinutes * 60 * 1000) {
+        this.schedule(folder, 'idle');
+      }
+    }, Math.max(1, triggers.idleMinutes) * 60 * 1000);
+  }
+
+  private handleWindowBlur(): void {
+    if (!this.configManager.getBackupTriggers().windowBlurEnabled) {
+      return;
+    }
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      if (this.activity.get(folder.uri.toString())?.hasActivity) {
+        this.schedule(folder, 'windowBlur');
+      }
+    }
+  }
+
+  // Debounce: every new trigger for the folder restarts the wait
+  private schedule(folder: vscode.WorkspaceFolder, trigger: BackupTrigger): void {
+    const state = this.getActivity(folder);
+    if (state.debounceTimer) {
+      clearTimeout(state.debounceTimer);
+    }
+    const debounceMs = Math.max(0, this.configManager.getBackupTriggers().debounceSeconds) * 1000;
+    state.debounceTimer = setTimeout(() => {
+      state.debounceTimer = undefined;
+      state.saves = 0;
+      state.hasActivity = false;
+      console.log(`Version0: Activity trigger '${trigger}' fired for '${folder.name}'.`);
+      this.onTrigger(folder, trigger);
+    }, debounceMs);
+  }
+
+  private getActivity(folder: vscode.WorkspaceFolder): IFolderActivity {
+    const key = folder.uri.toString();
+    let state = this.activity.get(key);
+    if (!state) {
+      state = { saves: 0, editStart: undefined, lastEdit: undefined, hasActivity: false, idleTimer: undefined, debounceTimer: undefined };
+      this.activity.set(key, state);
+    }
+    return state;
+  }
+
+  public dispose(): void {
+    this.activity.forEach(state => {
+      if (state.idleTimer) clearTimeout(state.idleTimer);
+      if (state.debounceTimer) clearTimeout(state.debounceTimer);
+    });
+    this.activity.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
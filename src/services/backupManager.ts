@@ -3,172 +3,489 @@ import simpleGit, { SimpleGit, CheckRepoActions } from 'simple-git';
 import moment from 'moment';
 import { GithubService } from './githubService';
 import { ConfigManager } from './configManager';
-import { ErrorHandler, ErrorType } from '../utils/errorHandler';
+import { ErrorHandler, ErrorType, errorMessage } from '../utils/errorHandler';
+import { RetentionPolicy } from './retentionPolicy';
+import { ActivityMonitor } from './activityMonitor';
+import { GitOperationWatcher, IRepositorySnapshot } from './gitOperationWatcher';
+import { createBackupTarget, detectBackupTargetKind } from './backupTargets';
+import { UploadOutcome, UploadQueue } from './uploadQueue';
+import { ENCRYPTION_ALGORITHM, EncryptionService } from './encryptionService';
+import { SecretScanner } from './secretScanner';
+import { BackupSource, BackupTrigger, IBackupResult, IMilestoneInfo, ILargeFileOutcome, ISecretFinding, SecretScanOperation, IBackupFileChange, IBackupInfo, IFolderBackupStatus, IBackupTarget, IPendingUpload, IPruneResult, IPushOptions, IPushResult, IRestoreResult, IWorkingTreeState, RiskyGitOperation } from '../types/interfaces';
+import { BACKUP_TIMESTAMP_FORMAT, BackupBranchNaming, compareVersions } from '../utils/backupBranch';
+import { BackupFilter } from '../utils/backupFilter';
+import { findLargeFiles, formatFileSize, isLfsAvailable, removeFromTree, storeInLfs } from '../utils/largeFiles';
+import { runGit, writeTag } from '../utils/gitObjects';
+import { formatMilestoneMessage, formatReleaseNotes, milestoneFromTag, milestoneTagName, nextMilestoneVersion } from '../utils/milestones';
+import { backupInfoFromCommit, formatBackupTrailers, parseBackupMetadata } from '../utils/backupMetadata';
 import * as path from 'path';
+import * as os from 'os';
 import * as fs from 'fs/promises';
 
+/**
+ * Per-folder backup state: each git workspace folder gets its own git context,
+ * version counter and timer.
+ */
+interface IFolderBackupContext {
+  folder: vscode.WorkspaceFolder;
+  git: SimpleGit | undefined;
+  timer: NodeJS.Timeout | undefined;
+  lastVersion: string | undefined;
+  lastBackupTime: Date | undefined;
+  lastBackupBranch: string | undefined;
+  lastError: string | undefined;
+  backupInProgress: boolean;
+  lastAttemptTime: Date | undefined;
+  // Delays an activity-triggered backup until the minimum gap has passed
+  gapTimer: NodeJS.Timeout | undefined;
+}
+
+// A backup of the state recorded just before a risky git operation
+interface ISafetyBackup {
+  operation: RiskyGitOperation;
+  treeSha: string;
+  parentSha: string | undefined;
+  sourceBranch: string | undefined;
+}
+
 export class BackupManager implements vscode.Disposable {
   private githubService: GithubService;
   private configManager: ConfigManager;
+  private encryptionService: EncryptionService;
+  private secretScanner: SecretScanner;
   private errorHandler: ErrorHandler;
-  private timer: NodeJS.Timeout | undefined;
-  private git: SimpleGit | undefined;
-  private workspaceRoot: string | undefined;
+  private contexts = new Map<string, IFolderBackupContext>();
+  private running = false;
+  private activityMonitor: ActivityMonitor | undefined;
+  private gitOperationWatcher: GitOperationWatcher;
+  private uploadQueue: UploadQueue;
+  private disposables: vscode.Disposable[] = [];
+  private readonly _onDidChangeFolders = new vscode.EventEmitter<void>();
+  public readonly onDidChangeFolders = this._onDidChangeFolders.event;
+  // Fired when a backup was blocked or redacted because of possible secrets
+  private readonly _onDidFindSecrets = new vscode.EventEmitter<{ folder: vscode.WorkspaceFolder; findings: ISecretFinding[]; blocked: boolean; operation: SecretScanOperation }>();
+  public readonly onDidFindSecrets = this._onDidFindSecrets.event;
   private static readonly BACKUP_REMOTE_NAME = 'version0_backup_target'; // Dedicated remote name
+  private static readonly SNAPSHOT_REF_PREFIX = 'refs/version0/'; // Local refs for snapshot commits
+  private static readonly DECRYPTED_REF_PREFIX = 'refs/version0-plain/'; // Local refs for decrypted backups
+  private static readonly MILESTONE_REF_PREFIX = 'refs/version0-milestones/'; // Local refs for the target's milestone tags
+  // Git's well-known empty tree, used as the base when HEAD is unborn
+  private static readonly EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
 
-  constructor(githubService: GithubService, configManager: ConfigManager) {
+  constructor(githubService: GithubService, configManager: ConfigManager, encryptionService: EncryptionService, secretScanner: SecretScanner) {
     this.githubService = githubService;
     this.configManager = configManager;
+    this.encryptionService = encryptionService;
+    this.secretScanner = secretScanner;
     this.errorHandler = ErrorHandler.getInstance();
-    this.initializeGit().catch(err => {
-        this.errorHandler.handleError(err, 'Git initialization on construction');
-    });
+
+    // Backups whose push failed are retried from here, for folders open in this window
+    this.uploadQueue = new UploadQueue(
+      configManager,
+      pending => this.uploadPendingBackup(pending),
+      pending => !!this.contexts.get(pending.folderUri)?.git
+    );
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      this.addFolder(folder).catch(err => {
+          this.errorHandler.handleError(err, `Git initialization for '${folder.name}' on construction`);
+      });
+    }
+
+    // Safety backups run whether or not the backup service is started
+    this.gitOperationWatcher = new GitOperationWatcher(
+      (folder, dirty) => this.captureWorkingTree(folder, dirty),
+      (folder, operation, before) => this.handleRiskyOperation(folder, operation, before),
+      folder => this.configManager.getSafetyBackupsEnabled() && !!this.configManager.getTargetBackupRepoUrl(folder.uri)
+    );
+
+    this.disposables.push(
+      this.gitOperationWatcher,
+      this.uploadQueue,
+      this.uploadQueue.onDidChange(() => this._onDidChangeFolders.fire()),
+      this._onDidChangeFolders,
+      this._onDidFindSecrets,
+      vscode.workspace.onDidChangeWorkspaceFolders(e => {
+        e.removed.forEach(folder => this.removeFolder(folder));
+        Promise.all(e.added.map(folder => this.addFolder(folder)))
+          .catch(err => this.errorHandler.handleError(err, 'Workspace folder change'))
+          .finally(() => this._onDidChangeFolders.fire());
+      })
+    );
   }
 
-  private async initializeGit(forceReInit = false): Promise<boolean> {
-    const currentWorkspaceFolders = vscode.workspace.workspaceFolders;
-    const newWorkspaceRoot = currentWorkspaceFolders && currentWorkspaceFolders.length > 0
-      ? currentWorkspaceFolders[0].uri.fsPath
-      : undefined;
+  private async addFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+    const context: IFolderBackupContext = {
+      folder,
+      git: undefined,
+      timer: undefined,
+      lastVersion: undefined,
+      lastBackupTime: undefined,
+      lastBackupBranch: undefined,
+      lastError: undefined,
+      backupInProgress: false,
+      lastAttemptTime: undefined,
+      gapTimer: undefined
+    };
+    this.contexts.set(folder.uri.toString(), context);
+    await this.initializeGit(context);
+    if (this.running) {
+      this.startTimer(context);
+    }
+    // Pick up uploads queued for this folder in an earlier session
+    this.uploadQueue.refresh();
+  }
 
-    if (!newWorkspaceRoot) {
-      this.git = undefined;
-      this.workspaceRoot = undefined;
-      console.warn("Version0: No workspace folder open. Git operations disabled.");
-      return false;
+  private removeFolder(folder: vscode.WorkspaceFolder): void {
+    const key = folder.uri.toString();
+    const context = this.contexts.get(key);
+    if (context) {
+      this.stopTimer(context);
+      this.contexts.delete(key);
+      console.log(`Version0: Stopped tracking workspace folder '${folder.name}'.`);
     }
+  }
+
+  private async initializeGit(context: IFolderBackupContext, forceReInit = false): Promise<boolean> {
+    const workspaceRoot = context.folder.uri.fsPath;
 
-    // If workspace hasn't changed and git is already initialized (and not forcing re-init), do nothing
-    if (this.git && this.workspaceRoot === newWorkspaceRoot && !forceReInit) {
+    // If git is already initialized (and not forcing re-init), do nothing
+    if (context.git && !forceReInit) {
         try {
             // Quick check to see if git instance is still valid
-            await this.git.status();
+            await context.git.status();
             return true;
         } catch (e) {
-            console.warn("Version0: Existing Git instance seems invalid, re-initializing.");
+            console.warn(`Version0: Existing Git instance for '${context.folder.name}' seems invalid, re-initializing.`);
             // Proceed to re-initialize
         }
     }
-    
-    this.workspaceRoot = newWorkspaceRoot; // Set new root
 
     try {
       // Validate path existence before passing to simpleGit
-      if (!await fs.stat(this.workspaceRoot).then(s => s.isDirectory()).catch(() => false)) {
-          console.error(`Version0: Workspace root path does not exist or is not a directory: ${this.workspaceRoot}`);
-          this.git = undefined;
+      if (!await fs.stat(workspaceRoot).then(s => s.isDirectory()).catch(() => false)) {
+          console.error(`Version0: Workspace root path does not exist or is not a directory: ${workspaceRoot}`);
+          context.git = undefined;
           return false;
       }
 
-      this.git = simpleGit(this.workspaceRoot);
-      const isRepo = await this.git.checkIsRepo(CheckRepoActions.IS_REPO_ROOT);
+      const git = simpleGit(workspaceRoot);
+      const isRepo = await git.checkIsRepo(CheckRepoActions.IS_REPO_ROOT);
       if (!isRepo) {
         // This case is handled more gracefully in performBackup/pushCurrentState with a prompt to init
-        console.warn(`Version0: Workspace '${path.basename(this.workspaceRoot)}' is not a Git repository.`);
-        this.git = undefined; // Mark as not usable until initialized
+        console.warn(`Version0: Workspace '${path.basename(workspaceRoot)}' is not a Git repository.`);
+        context.git = undefined; // Mark as not usable until initialized
         return false; 
       }
-      console.log(`Version0: Git initialized successfully for ${this.workspaceRoot}`);
+      context.git = git;
+      console.log(`Version0: Git initialized successfully for ${workspaceRoot}`);
       return true;
-    } catch (error: any) {
-      console.error(`Version0: Error initializing simple-git for ${this.workspaceRoot}: ${error.message}`);
-      this.git = undefined;
+    } catch (error: unknown) {
+      console.error(`Version0: Error initializing simple-git for ${workspaceRoot}: ${errorMessage(error)}`);
+      context.git = undefined;
       return false;
     }
   }
 
+  /**
+   * Workspace folders currently tracked by the backup manager.
+   */
+  public getWorkspaceFolders(): vscode.WorkspaceFolder[] {
+    return Array.from(this.contexts.values()).map(c => c.folder);
+  }
+
+  public getWorkspaceFolder(folderUri: string): vscode.WorkspaceFolder | undefined {
+    return this.contexts.get(folderUri)?.folder;
+  }
+
+  /**
+   * Backup status of every tracked folder, for display in the sidebar.
+   */
+  public getFolderStatuses(): IFolderBackupStatus[] {
+    return Array.from(this.contexts.values()).map(context => ({
+      uri: context.folder.uri.toString(),
+      name: context.folder.name,
+      isGitRepo: !!context.git,
+      targetRepoUrl: this.configManager.getTargetBackupRepoUrl(context.folder.uri),
+      timerActive: !!context.timer,
+      activeTriggers: this.activityMonitor && context.git ? this.activityMonitor.getActiveTriggers() : [],
+      lastBackupTime: context.lastBackupTime?.toISOString(),
+      lastBackupBranch: context.lastBackupBranch,
+      lastError: context.lastError,
+      pendingUploads: this.uploadQueue.getPending(context.folder.uri.toString()).length
+    }));
+  }
+
+  /**
+   * The backup target configured for a folder, or undefined when no target URL is set.
+   * The kind comes from `version0.backupTargetType`, or is detected from the URL.
+   */
+  public getBackupTarget(folder: vscode.WorkspaceFolder): IBackupTarget | undefined {
+    const url = this.configManager.getTargetBackupRepoUrl(folder.uri);
+    return url ? this.createTarget(folder, url) : undefined;
+  }
+
+  private createTarget(folder: vscode.WorkspaceFolder, url: string): IBackupTarget {
+    const configuredKind = this.configManager.getBackupTargetType(folder.uri);
+    const kind = configuredKind === 'auto' ? detectBackupTargetKind(url, this.githubService) : configuredKind;
+    return createBackupTarget(url, kind, this.githubService, folder.uri.fsPath);
+  }
+
+  /**
+   * URL of the folder's `origin` remote, or undefined when it has none.
+   */
+  public async getOriginUrl(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+    const context = this.contexts.get(folder.uri.toString());
+    if (!context?.git) {
+      return undefined;
+    }
+    const url = await context.git.remote(['get-url', 'origin']).catch(() => undefined);
+    return url ? url.trim() : undefined;
+  }
+
+  /**
+   * Resolve the folder an operation applies to, asking the user when several are open.
+   */
+  public async pickFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = this.getWorkspaceFolders();
+    if (folders.length <= 1) {
+      return folders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder });
+  }
+
+  private async resolveContext(folder: vscode.WorkspaceFolder | undefined, placeHolder: string): Promise<IFolderBackupContext> {
+    const target = folder || await this.pickFolder(placeHolder);
+    if (!target) {
+      throw new Error("No workspace folder open or selected.");
+    }
+    const context = this.contexts.get(target.uri.toString());
+    if (!context) {
+      throw new Error(`Workspace folder '${target.name}' is not tracked by Version0.`);
+    }
+    return context;
+  }
+
   public start(): void {
-    this.stop(); // Stop any existing timer
+    this.stop(); // Stop any existing timers
+    this.running = true;
+    this.contexts.forEach(context => this.startTimer(context));
+    this.activityMonitor = new ActivityMonitor(this.configManager, (folder, trigger) => this.handleActivityTrigger(folder, trigger));
+    this._onDidChangeFolders.fire();
+  }
+
+  public stop(): void {
+    this.running = false;
+    this.contexts.forEach(context => this.stopTimer(context));
+    this.activityMonitor?.dispose();
+    this.activityMonitor = undefined;
+  }
+
+  public restartTimer(): void {
+    this.stop();
+    this.start();
+  }
+
+  private startTimer(context: IFolderBackupContext): void {
+    this.stopTimer(context);
     const intervalMinutes = this.configManager.getBackupInterval();
-    if (intervalMinutes > 0) {
-      this.timer = setInterval(() => {
+    if (intervalMinutes > 0 && context.git) {
+      context.timer = setInterval(() => {
+        // The next tick comes soon enough; overlapping backups would race on the index and version
+        if (context.backupInProgress) {
+          console.log(`Version0: Skipping timed backup of '${context.folder.name}': another backup is in progress.`);
+          return;
+        }
         vscode.window.withProgress({
           location: vscode.ProgressLocation.Notification,
-          title: "Version0: Running automatic backup..."
+          title: `Version0: Running automatic backup of '${context.folder.name}'...`
         },
-          () => this.performBackup(false)
+          () => this.performBackup(context, 'timer').catch(() => undefined)
         );
       }, intervalMinutes * 60 * 1000); // Convert minutes to milliseconds
     }
   }
 
-  public stop(): void {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = undefined;
+  private stopTimer(context: IFolderBackupContext): void {
+    if (context.timer) {
+      clearInterval(context.timer);
+      context.timer = undefined;
+    }
+    if (context.gapTimer) {
+      clearTimeout(context.gapTimer);
+      context.gapTimer = undefined;
     }
   }
 
-  public restartTimer(): void {
-    this.stop();
-    this.start();
+  /**
+   * Run an activity-triggered backup, honouring the minimum gap since the previous backup
+   * attempt. A trigger that arrives too early is deferred until the gap has passed.
+   */
+  private handleActivityTrigger(folder: vscode.WorkspaceFolder, trigger: BackupTrigger): void {
+    const context = this.contexts.get(folder.uri.toString());
+    if (!context || !context.git || !this.running || context.backupInProgress || context.gapTimer) {
+      return;
+    }
+    const minGapMs = this.configManager.getBackupTriggers().minGapMinutes * 60 * 1000;
+    const lastAttempt = context.lastAttemptTime?.getTime() ?? 0;
+    const waitMs = lastAttempt + minGapMs - Date.now();
+    if (waitMs > 0) {
+      console.log(`Version0: Deferring '${trigger}' backup of '${folder.name}' by ${Math.ceil(waitMs / 1000)}s (minimum gap).`);
+      context.gapTimer = setTimeout(() => {
+        context.gapTimer = undefined;
+        this.handleActivityTrigger(folder, trigger);
+      }, waitMs);
+      return;
+    }
+    vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Version0: Backing up '${folder.name}' (${trigger})...`
+    },
+      () => this.performBackup(context, trigger).catch(() => undefined)
+    );
+  }
+
+  /**
+   * Snapshot tree of a folder's current working tree, recorded by the git operation
+   * watcher so the state before a risky operation can still be backed up afterwards.
+   * A clean working tree is HEAD's tree, so nothing needs to be written for it.
+   */
+  private async captureWorkingTree(folder: vscode.WorkspaceFolder, dirty: boolean): Promise<string | undefined> {
+    const context = this.contexts.get(folder.uri.toString());
+    if (!context || !context.git) {
+      return undefined;
+    }
+    if (!dirty) {
+      return (await context.git.revparse(['HEAD^{tree}'])).trim();
+    }
+    return this.createSnapshotTree(context.git, folder.uri.fsPath);
   }
 
-  public async triggerManualBackup(): Promise<void> {
-    return this.errorHandler.withProgress('Manual backup in progress...', async (progress) => {
+  /**
+   * Push the state recorded before a risky git operation as a safety backup.
+   */
+  private handleRiskyOperation(folder: vscode.WorkspaceFolder, operation: RiskyGitOperation, before: IRepositorySnapshot): void {
+    const context = this.contexts.get(folder.uri.toString());
+    if (!context || !context.git || !before.treeSha) {
+      return;
+    }
+    if (context.backupInProgress) {
+      console.warn(`Version0: Skipping safety backup of '${folder.name}' before ${operation}: another backup is in progress.`);
+      return;
+    }
+    const safety: ISafetyBackup = {
+      operation,
+      treeSha: before.treeSha,
+      parentSha: before.headSha,
+      sourceBranch: before.branch
+    };
+    vscode.window.withProgress({
+      location: vscode.ProgressLocation.Window,
+      title: `Version0: Safety backup of '${folder.name}' before ${operation}...`
+    },
+      () => this.performBackup(context, `pre-${operation}`, safety).catch(() => undefined)
+    );
+  }
+
+  /**
+   * Back up a folder on demand. Resolves to the backup branch and how large files were
+   * handled, or undefined when the user chose not to back up an unchanged working tree.
+   */
+  public async triggerManualBackup(folder?: vscode.WorkspaceFolder): Promise<IBackupResult | undefined> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to back up');
+    return this.errorHandler.withProgress(`Manual backup of '${context.folder.name}' in progress...`, async (progress) => {
       progress.report({ increment: 0, message: 'Starting backup...' });
-      await this.performBackup(true);
-      progress.report({ increment: 100, message: 'Backup completed!' });
+      const result = await this.performBackup(context, 'manual');
+      progress.report({ increment: 100, message: result ? 'Backup completed!' : 'Backup skipped.' });
+      return result;
     });
   }
 
-  private async tryFixGitCorruption(): Promise<boolean> {
-    if (!this.git || !this.workspaceRoot) {
-      console.log(`Version0: Cannot fix git corruption - git or workspaceRoot not initialized`);
-      return false;
+  /**
+   * Stage the working tree into the snapshot index, honouring .gitignore and the folder's
+   * backup rules: excluded files are left out (untracked ones are never even hashed) and
+   * force-included files are added although git ignores them.
+   * Called with the snapshot instance so the user's real index is never modified.
+   */
+  private async stageSnapshot(git: SimpleGit, filter: BackupFilter): Promise<void> {
+    const listFiles = async (args: string[]) => (await git.raw(['ls-files', '-z', ...args])).split('\0').filter(file => file.length > 0);
+    // Paths are passed literally so names with glob characters are not expanded
+    const inBatches = async (args: string[], files: string[]) => {
+      const batchSize = 100;
+      for (let i = 0; i < files.length; i += batchSize) {
+        await git.raw([...args, '--', ...files.slice(i, i + batchSize).map(file => `:(literal)${file}`)]);
+      }
+    };
+
+    await git.raw(['add', '-u', '--', '.']);
+    const untracked = await listFiles(['--others', '--exclude-standard']);
+    await inBatches(['add'], untracked.filter(file => !filter.isExcluded(file)));
+
+    const excludedTracked = (await listFiles([])).filter(file => filter.isExcluded(file));
+    await inBatches(['rm', '--cached', '-q', '-f'], excludedTracked);
+
+    if (filter.hasForcedIncludes) {
+      const ignored = await listFiles(['--others', '--ignored', '--exclude-standard']);
+      await inBatches(['add', '-f'], ignored.filter(file => filter.isForceIncluded(file)));
     }
+  }
 
+  /**
+   * The backup rules of the workspace folder at `workspaceRoot`.
+   */
+  private loadBackupFilter(workspaceRoot: string): Promise<BackupFilter> {
+    return BackupFilter.load(workspaceRoot, this.configManager.getBackupFilterSettings(vscode.Uri.file(workspaceRoot)));
+  }
+
+  private async performBackup(context: IFolderBackupContext, source: BackupSource, safety?: ISafetyBackup): Promise<IBackupResult | undefined> {
+    context.backupInProgress = true;
+    context.lastAttemptTime = new Date();
     try {
-      console.log(`Version0: Attempting to fix potential git index corruption...`);
-      
-      // Try to remove any voicetype reference from the index
-      try {
-        await this.git.raw(['rm', '--cached', '-r', '-f', 'voicetype']);
-      } catch (e) {
-        // Ignore, this is expected to fail if no such path exists
+      const result = await this.runBackup(context, source, safety);
+      if (!result) {
+        context.lastError = undefined;
+        return undefined;
       }
-      
-      // Try to clean the index more aggressively
-      try {
-        // Get all files currently tracked by git
-        const lsFiles = await this.git.raw(['ls-files']);
-        const trackedFiles = lsFiles.split('\n').filter(f => f.trim().length > 0);
-        
-        // Check if any of these files contain the problematic path
-        const problemFiles = trackedFiles.filter(f => f.includes('voicetype'));
-        
-        if (problemFiles.length > 0) {
-          console.log(`Version0: Found ${problemFiles.length} problematic references to 'voicetype' in git index`);
-          // Remove them individually
-          for (const file of problemFiles) {
-            try {
-              await this.git.raw(['rm', '--cached', '-f', file]);
-              console.log(`Version0: Removed problematic file from index: ${file}`);
-            } catch (e) {
-              // Continue with the next file
-            }
+      context.lastBackupTime = new Date();
+      context.lastBackupBranch = result.branchName;
+      context.lastError = undefined;
+
+      if (this.configManager.getRetentionPolicy().enabled) {
+        try {
+          const pruneResult = await this.pruneBackups(context.folder, false);
+          if (pruneResult.pruned.length > 0) {
+            console.log(`Version0: Pruned ${pruneResult.pruned.length} old backup branches of '${context.folder.name}'.`);
           }
+        } catch (pruneError: unknown) {
+          // A failed prune must not turn a successful backup into a failure
+          console.error(`Version0: Automatic pruning failed for '${context.folder.name}':`, pruneError);
         }
-      } catch (e) {
-        // Ignore errors from this operation
       }
-      
-      return true;
-    } catch (error: any) {
-      console.error(`Version0: Error while trying to fix git corruption: ${error.message}`);
-      return false;
+      return result;
+    } catch (error: unknown) {
+      context.lastError = errorMessage(error);
+      throw error;
+    } finally {
+      context.backupInProgress = false;
+      this._onDidChangeFolders.fire();
     }
   }
 
-  private async performBackup(isManual = false): Promise<void> {
-    const didInitialize = await this.initializeGit(true); // Force re-check/re-init
+  /**
+   * Snapshot and push one folder. Resolves to the new backup branch and the large files it
+   * left out or stored through LFS, or undefined when the backup was skipped because the
+   * working tree is unchanged since the last backup.
+   * A safety backup pushes the tree recorded before a risky git operation instead of the
+   * current working tree.
+   */
+  private async runBackup(context: IFolderBackupContext, source: BackupSource, safety?: ISafetyBackup): Promise<IBackupResult | undefined> {
+    const isManual = source === 'manual';
+    const workspaceRoot = context.folder.uri.fsPath;
+    const didInitialize = await this.initializeGit(context, true); // Force re-check/re-init
 
-    if (!this.workspaceRoot) {
-      throw new Error("Backup failed: No workspace folder open.");
-    }
-    if (!this.git && didInitialize === false) { // Check if initializeGit explicitly failed or marked not a repo
+    if (!context.git && didInitialize === false) { // Check if initializeGit explicitly failed or marked not a repo
       const initChoice = await vscode.window.showWarningMessage(
-        `Workspace '${path.basename(this.workspaceRoot)}' is not a Git repository. Initialize now?`,
+        `Workspace '${path.basename(workspaceRoot)}' is not a Git repository. Initialize now?`,
         { modal: true },
         'Initialize Git Repository'
       );
@@ -176,273 +493,814 @@ export class BackupManager implements vscode.Disposable {
         throw new Error("Backup cancelled: Workspace is not a Git repository.");
       }
       try {
-        const tempGit = simpleGit(this.workspaceRoot); // Use a temporary instance for init
+        const tempGit = simpleGit(workspaceRoot); // Use a temporary instance for init
         await tempGit.init();
-        vscode.window.showInformationMessage(`Git repository initialized in ${path.basename(this.workspaceRoot)}.`);
-        if (!await this.initializeGit(true)) { // Re-initialize and check again
+        vscode.window.showInformationMessage(`Git repository initialized in ${path.basename(workspaceRoot)}.`);
+        if (!await this.initializeGit(context, true)) { // Re-initialize and check again
              throw new Error("Git initialization seemed to succeed, but BackupManager could not confirm. Please check logs.");
         }
-      } catch (initError: any) {
-        throw new Error(`Git initialization failed: ${initError.message}`);
+        if (this.running) {
+          this.startTimer(context);
+        }
+      } catch (initError: unknown) {
+        throw new Error(`Git initialization failed: ${errorMessage(initError)}`);
       }
     }
     
-    // At this point, if this.git is still not defined, something is wrong.
-    if (!this.git) {
+    // At this point, if context.git is still not defined, something is wrong.
+    if (!context.git) {
         throw new Error("Backup failed: Git is not available for the current workspace. Check for errors during initialization.");
     }
-    const git = this.git; // Use this constant for operations
+    const git = context.git; // Use this constant for operations
 
     // Get target URL for the backup remote
-    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl();
+    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl(context.folder.uri);
     if (!targetRepoUrl) {
       throw this.errorHandler.createError(
         ErrorType.CONFIGURATION,
-        "Target backup repository URL is not configured in settings",
+        `Target backup repository URL is not configured for '${context.folder.name}'`,
         "Backup operation",
         true
       );
     }
 
-    // Ensure GitHub authentication
-    if (!await this.githubService.isAuthenticated()) {
-      const authenticated = await this.githubService.authenticate();
-      if (!authenticated) {
-        throw this.errorHandler.createError(
-          ErrorType.AUTHENTICATION,
-          "GitHub authentication required. Please authenticate and try again",
-          "Backup operation",
-          true
-        );
+    // Validate workspaceRoot one last time before touching the repository
+    if (!await fs.stat(workspaceRoot).then(s => s.isDirectory()).catch(() => false)) {
+        console.error(`Version0: [performBackup] Workspace path is invalid before snapshot: ${workspaceRoot}`);
+        throw new Error(`Backup failed: Workspace path is invalid or inaccessible: ${workspaceRoot}`);
+    }
+
+    let treeSha: string;
+    try {
+      treeSha = safety ? safety.treeSha : await this.createSnapshotTree(git, workspaceRoot);
+    } catch (snapshotError: unknown) {
+      throw new Error(`Failed to snapshot the working tree: ${errorMessage(snapshotError)}`);
+    }
+
+    // Skip the backup when the tree is identical to the last one pushed to this target
+    const lastBackup = this.configManager.getLastBackupTree(context.folder.uri);
+    if (lastBackup && lastBackup.treeSha === treeSha && lastBackup.targetRepoUrl === targetRepoUrl) {
+      if (!isManual) {
+        console.log(`Version0: Skipping timed backup of '${context.folder.name}': nothing changed since '${lastBackup.branchName}'.`);
+        return undefined;
+      }
+      const choice = await vscode.window.showInformationMessage(
+        `Nothing changed in '${context.folder.name}' since backup '${lastBackup.branchName}'. Create another backup anyway?`,
+        { modal: true },
+        'Back Up Anyway'
+      );
+      if (choice !== 'Back Up Anyway') {
+        return undefined;
+      }
+    }
+
+    // The commit the snapshot was taken from. The large file check only looks at files that
+    // differ from it.
+    const headSha = safety ? safety.parentSha : await git.revparse(['--verify', '--quiet', 'HEAD']).catch(() => '');
+    const baseTree = headSha ? `${headSha}^{tree}` : BackupManager.EMPTY_TREE_SHA;
+
+    // Keep secrets out of the target: block the backup or redact them, as configured.
+    // `treeSha` stays the working tree's own tree so unchanged detection keeps working.
+    let backupTreeSha = treeSha;
+    let redacted: number | undefined;
+    // Set when redacted secrets may be in local commits, which the snapshot must then leave out
+    let withoutHistory = false;
+    const secretScanning = this.configManager.getSecretScanning();
+    if (secretScanning.enabled) {
+      // A snapshot carries the local commits it is built on, so the scan starts where the
+      // published history ends. Encrypted backups are pushed without history.
+      const scanBaseTree = this.configManager.getEncryptionEnabled() ? baseTree : await this.getPublishedBaseTree(git, headSha);
+      let findings: ISecretFinding[];
+      try {
+        findings = await this.secretScanner.scan(context.folder, scanBaseTree, treeSha);
+      } catch (scanError: unknown) {
+        throw new Error(`Secret scan failed: ${errorMessage(scanError)}`);
       }
+      if (findings.length > 0) {
+        const blocked = secretScanning.action === 'block';
+        this._onDidFindSecrets.fire({ folder: context.folder, findings, blocked, operation: 'backup' });
+        if (blocked) {
+          throw this.errorHandler.createError(
+            ErrorType.VALIDATION,
+            `Backup of '${context.folder.name}' blocked: ${findings.length} possible secret(s) found in changed files`,
+            "Secret scan",
+            true
+          );
+        }
+        backupTreeSha = await this.secretScanner.redact(context.folder, scanBaseTree, treeSha, findings);
+        redacted = findings.length;
+        withoutHistory = scanBaseTree !== baseTree;
+      }
+    }
+
+    // Make sure the target is usable (authenticated, or created for local targets)
+    const target = this.createTarget(context.folder, targetRepoUrl);
+    if (!await target.ensureReady()) {
+      throw this.errorHandler.createError(
+        target.kind === 'github' ? ErrorType.AUTHENTICATION : ErrorType.CONFIGURATION,
+        target.kind === 'github'
+          ? "GitHub authentication required. Please authenticate and try again"
+          : `Backup target '${targetRepoUrl}' is not usable`,
+        "Backup operation",
+        true
+      );
     }
     
     // Configure the dedicated backup remote
     try {
-      const remotes = await git.getRemotes(true);
-      let backupRemote = remotes.find(r => r.name === BackupManager.BACKUP_REMOTE_NAME);
-      
-      if (backupRemote && backupRemote.refs.push !== targetRepoUrl) {
-        // Remote exists but points to the wrong URL, update it
-        await git.removeRemote(BackupManager.BACKUP_REMOTE_NAME);
-        backupRemote = undefined; // Treat as if it doesn't exist to re-add
-        console.log(`Version0: Updated '${BackupManager.BACKUP_REMOTE_NAME}' remote to new target URL.`);
-      }
-      
-      if (!backupRemote) {
-        await git.addRemote(BackupManager.BACKUP_REMOTE_NAME, targetRepoUrl);
-        console.log(`Version0: Added remote '${BackupManager.BACKUP_REMOTE_NAME}' pointing to ${targetRepoUrl}.`);
-      }
-    } catch (remoteError: any) {
-      throw new Error(`Failed to configure backup remote '${BackupManager.BACKUP_REMOTE_NAME}': ${remoteError.message}`);
+      await this.ensureBackupRemote(git, targetRepoUrl);
+    } catch (remoteError: unknown) {
+      throw new Error(`Failed to configure backup remote '${BackupManager.BACKUP_REMOTE_NAME}': ${errorMessage(remoteError)}`);
     }
 
+    // Files over the size limit would make the push fail
+    const largeFileCheck = await this.applyLargeFilePolicy(context, target, baseTree, backupTreeSha);
+    backupTreeSha = largeFileCheck.treeSha;
+    const largeFiles = largeFileCheck.largeFiles;
+    const lfsFiles = largeFiles.filter(f => f.action === 'lfs').length;
+
     // --- Calculate Next Version Branch Name ---
-    let nextVersion = '1.0'; // Default starting version
+    const naming = this.getBranchNaming();
+    // Backups waiting for upload are not on the target yet but already own their versions
+    const existingBranches = this.uploadQueue.getPending(context.folder.uri.toString())
+      .filter(pending => pending.targetRepoUrl === targetRepoUrl)
+      .map(pending => pending.branchName);
     try {
-      // Fetch branches starting with 'v' from the target repo
-      // Added explicit check although previous logic should prevent undefined
-      if (!targetRepoUrl) {
-        throw new Error("Cannot fetch branches: Target repository URL is not defined.");
+      existingBranches.push(...await target.listBranches());
+    } catch (branchError: unknown) {
+      // Offline: carry on from the versions known locally
+      console.error("Version0: Error fetching existing branches, continuing from locally known versions:", branchError);
+      if (!context.lastVersion && existingBranches.length === 0) {
+        vscode.window.showWarningMessage("Could not determine next version number from existing branches. Starting a new version sequence.");
       }
-      const existingBranches = await this.githubService.getBackupBranchesFromTargetUrl(targetRepoUrl);
-      
-      let maxMajor = 0;
-      let maxMinor = -1; // Start minor at -1 to correctly handle v1.0 start
-
-      existingBranches.forEach(branch => {
-        // Regex to capture vX.Y from the start of the branch name
-        const match = branch.match(/^v(\d+)\.(\d+)/);
-        if (match) {
-          const major = parseInt(match[1], 10);
-          const minor = parseInt(match[2], 10);
-
-          if (major > maxMajor) {
-            maxMajor = major;
-            maxMinor = minor;
-          } else if (major === maxMajor && minor > maxMinor) {
-            maxMinor = minor;
-          }
-        }
-      });
+    }
 
-      if (maxMinor !== -1) { // Found existing versions
-        nextVersion = `${maxMajor}.${maxMinor + 1}`;
-      } // Otherwise, stick with default v1.0
-      
-    } catch (branchError: any) {
-      // Log the error but proceed with default v1.0 - maybe notify user?
-      console.error("Version0: Error fetching or parsing existing branches, starting with v1.0:", branchError); 
-      vscode.window.showWarningMessage("Could not determine next version number from existing branches. Starting with v1.0.");
+    const existingVersions = existingBranches
+      .map(branch => naming.parse(branch)?.version)
+      .filter((version): version is string => !!version);
+    // The folder's own counter covers backups the remote listing has not caught up with yet
+    if (context.lastVersion) {
+      existingVersions.push(context.lastVersion);
     }
-    
-    const timestamp = moment().format('YYYY-MM-DD_HH-mm-ss'); // Add seconds for more unique branch names
-    let branchName = `v${nextVersion}/${timestamp}`;
+    // A milestone starts a new major version
+    existingVersions.push(...(await this.readMilestones(git)).map(m => m.version));
+
+    const now = new Date();
+    const nextVersion = naming.nextVersion(existingVersions, now);
+    const timestamp = moment(now).format(BACKUP_TIMESTAMP_FORMAT);
+    const sourceBranch = safety ? safety.sourceBranch : (await git.raw(['symbolic-ref', '--short', '-q', 'HEAD']).catch(() => '')).trim();
+    let branchName = naming.format({
+      version: nextVersion,
+      date: now,
+      branch: sourceBranch || undefined,
+      user: os.userInfo().username,
+      host: os.hostname()
+    });
     let commitMessage = `Version0 Backup: v${nextVersion} - ${timestamp}`;
+    let note: string | undefined;
 
     // Prompt for notes only if it's a manual backup
     if (isManual) {
-      const backupNote = await vscode.window.showInputBox({
+      note = await vscode.window.showInputBox({
         prompt: "Enter optional notes for this backup",
         placeHolder: "e.g., Refactored login component"
-      });
-      if (backupNote) {
-        commitMessage += ` - ${backupNote}`;
-      }
+      }) || undefined;
+    } else if (safety) {
+      note = `Safety backup before ${safety.operation}`;
+    }
+    if (note) {
+      commitMessage += ` - ${note}`;
     }
 
     try {
-      console.log(`Version0: [performBackup] Starting backup. Current this.workspaceRoot: ${this.workspaceRoot}`);
-      const status = await git.status();
-      if (!status.current) {
-          // Attempt to checkout a default branch if possible, or fail.
-          // Common defaults: main, master. Let's try 'main' then 'master'.
-          try {
-              console.log("Version0: [performBackup] No current branch, attempting to checkout 'main'.");
-              await git.checkout('main');
-              vscode.window.showInformationMessage("Version0: Switched to 'main' branch for initial backup.");
-          } catch (e) {
-              try {
-                  console.log("Version0: [performBackup] Checkout 'main' failed, attempting to checkout 'master'.");
-                  await git.checkout('master');
-                  vscode.window.showInformationMessage("Version0: Switched to 'master' branch for initial backup.");
-              } catch (e2) {
-                  console.error("Version0: [performBackup] Failed to checkout a default branch (main/master) for a new repository.", e2);
-                  throw new Error("Backup failed: Git is in a new repository state and could not create a default branch. Please commit manually once or ensure 'main' or 'master' can be created.");
-              }
-          }
-      }
-      
-      console.log(`Version0: [performBackup] About to checkout local branch: ${branchName}. Current branch: ${status.current || 'None'}`);
-      
-      try {
-        // Try to create the branch
-        await git.checkoutLocalBranch(branchName);
-        console.log(`Version0: [performBackup] Successfully checked out new local branch: ${branchName}`);
-      } catch (branchError: any) {
-        // If branch already exists, try to use it
-        if (branchError.message.includes('already exists')) {
-          console.log(`Version0: [performBackup] Branch ${branchName} already exists, attempting to switch to it`);
-          try {
-            // Try to switch to the existing branch
-            await git.checkout(branchName);
-            console.log(`Version0: [performBackup] Successfully switched to existing branch: ${branchName}`);
-          } catch (checkoutError: any) {
-            // If we can't switch to it either, try a more unique name by adding a suffix
-            const uniqueBranchName = `${branchName}-${Math.floor(Math.random() * 1000)}`;
-            console.log(`Version0: [performBackup] Creating alternative branch name: ${uniqueBranchName}`);
-            await git.checkoutLocalBranch(uniqueBranchName);
-            console.log(`Version0: [performBackup] Successfully created alternative branch: ${uniqueBranchName}`);
-            // Update the branch name for the rest of the process
-            branchName = uniqueBranchName;
-          }
-        } else {
-          // Some other error occurred
-          console.error(`Version0: [performBackup] Error creating branch: ${branchError.message}`);
-          throw branchError;
-        }
+      console.log(`Version0: [performBackup] Starting snapshot backup. Workspace root: ${workspaceRoot}`);
+
+      // Machine-readable metadata, stored as trailers so listings never depend on the branch name
+      const diffstat = await this.getDiffstat(git, baseTree, backupTreeSha);
+
+      // Encrypted backups push encrypted blobs in a commit without parents, so no plaintext
+      // history leaves the machine
+      let pushTreeSha = backupTreeSha;
+      let encryption: string | undefined;
+      if (this.configManager.getEncryptionEnabled()) {
+        const key = await this.encryptionService.getKey() || await this.createEncryptionKey();
+        pushTreeSha = await this.encryptionService.encryptTree(workspaceRoot, backupTreeSha, key);
+        encryption = `${ENCRYPTION_ALGORITHM} ${EncryptionService.keyId(key)}`;
       }
-      
-      // Validate workspaceRoot one last time and log git context
-      if (!this.workspaceRoot || !await fs.stat(this.workspaceRoot).then(s => s.isDirectory()).catch(() => false)) {
-          console.error(`Version0: [performBackup] Workspace path is invalid before git add: ${this.workspaceRoot}`);
-          throw new Error(`Backup failed: Workspace path is invalid or inaccessible: ${this.workspaceRoot}`);
+
+      const trailers = formatBackupTrailers({
+        version: nextVersion,
+        createdAt: new Date().toISOString(),
+        trigger: source,
+        sourceBranch: sourceBranch || undefined,
+        headSha: headSha || undefined,
+        hostname: os.hostname(),
+        changedFiles: diffstat.files,
+        insertions: diffstat.insertions,
+        deletions: diffstat.deletions,
+        note,
+        redacted,
+        lfsFiles: lfsFiles || undefined,
+        skippedLargeFiles: largeFiles.length - lfsFiles || undefined,
+        encryption
+      });
+      commitMessage += `\n\n${trailers.join('\n')}`;
+
+      const commitSha = await this.createSnapshotCommit(git, pushTreeSha, commitMessage, encryption || withoutHistory ? null : headSha);
+      console.log(`Version0: [performBackup] Created snapshot commit ${commitSha}`);
+
+      // Record the snapshot under a dedicated ref namespace so no local branch is created or checked out
+      if (await this.refExists(git, `${BackupManager.SNAPSHOT_REF_PREFIX}${branchName}`)) {
+        const uniqueBranchName = `${branchName}-${Math.floor(Math.random() * 1000)}`;
+        console.log(`Version0: [performBackup] Snapshot ref for ${branchName} already exists, using ${uniqueBranchName}`);
+        branchName = uniqueBranchName;
       }
-      const currentGitDir = await git.revparse('--git-dir').catch((err) => `unknown git-dir (${err.message})`);
-      const currentTopLevel = await git.revparse('--show-toplevel').catch((err) => `unknown top-level (${err.message})`);
-      console.log(`Version0: [performBackup] Pre-add context. WorkspaceRoot: ${this.workspaceRoot}, GitDir: ${currentGitDir}, TopLevel: ${currentTopLevel}`);
+      const snapshotRef = `${BackupManager.SNAPSHOT_REF_PREFIX}${branchName}`;
+      await git.raw(['update-ref', snapshotRef, commitSha]);
+      // The version belongs to this snapshot from here on, also when its upload is only queued
+      context.lastVersion = nextVersion;
 
+      // Push the snapshot ref as a branch on the dedicated backup remote. When that fails
+      // (typically offline) the snapshot stays under its local ref and is queued for upload.
       try {
-        // Check if there's any corruption in git index related to 'voicetype'
-        console.log(`Version0: [performBackup] Checking for problematic references before adding files`);
-        
-        // Attempt first level of cleanup
-        await this.tryFixGitCorruption();
-
-        // Get the status to determine what files to add
-        const statusSummary = await git.status();
-        
-        if (statusSummary.files.length === 0) {
-          // Nothing to add, proceed with empty commit
-          console.log(`Version0: [performBackup] No modified files found, proceeding with empty commit`);
-        } else {
-          // Add files individually instead of using '.'
-          const filesToAdd = statusSummary.files
-            .map(file => file.path)
-            .filter(path => !path.includes('voicetype')); // Exclude any paths with 'voicetype'
-            
-          console.log(`Version0: [performBackup] Adding ${filesToAdd.length} files individually`);
-          
-          if (filesToAdd.length > 0) {
-            // Add files in batches to avoid command line length issues
-            const batchSize = 50;
-            for (let i = 0; i < filesToAdd.length; i += batchSize) {
-              const batch = filesToAdd.slice(i, i + batchSize);
-              await git.add(batch);
-            }
-          }
+        await this.pushSnapshot(git, workspaceRoot, BackupManager.BACKUP_REMOTE_NAME, snapshotRef, branchName, lfsFiles > 0);
+      } catch (pushError: unknown) {
+        console.warn(`Version0: [performBackup] Push of ${branchName} failed, queueing it for upload:`, pushError);
+        await this.uploadQueue.enqueue({ folderUri: context.folder.uri.toString(), branchName, targetRepoUrl, treeSha }, errorMessage(pushError));
+        await this.configManager.setLastBackupTree(context.folder.uri, { treeSha, targetRepoUrl, branchName });
+        if (this.configManager.getEnableNotifications()) {
+          vscode.window.showWarningMessage(`Version0: Could not upload backup '${branchName}' of '${context.folder.name}'. It is saved locally and will be uploaded when the target is reachable.`);
         }
-      } catch (addError: any) {
-        console.error(`Version0: [performBackup] Error during file add operation: ${addError.message}`);
-        // Attempt to continue with empty commit
+        return { success: true, branchName, timestamp: new Date().toISOString(), largeFiles };
       }
 
-      const commitResult = await git.commit(commitMessage, { '--allow-empty': null }); 
-      
-      // Push to the dedicated backup remote
-      await git.push(BackupManager.BACKUP_REMOTE_NAME, branchName, { '--set-upstream': null });
-
       await git.fetch(BackupManager.BACKUP_REMOTE_NAME); // Fetch from the specific remote
+      await this.configManager.setLastBackupTree(context.folder.uri, { treeSha, targetRepoUrl, branchName });
 
       if (this.configManager.getEnableNotifications()) {
-        vscode.window.showInformationMessage(`Version0: Backup successful. Branch '${branchName}' pushed.`);
+        vscode.window.showInformationMessage(`Version0: Backup of '${context.folder.name}' successful. Branch '${branchName}' pushed.`);
       }
+      return { success: true, branchName, timestamp: new Date().toISOString(), largeFiles };
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error("Version0: Git operation failed:", error);
       if (this.configManager.getEnableNotifications()) {
-        vscode.window.showErrorMessage(`Version0: Backup failed: ${error.message}`);
+        vscode.window.showErrorMessage(`Version0: Backup failed: ${errorMessage(error)}`);
       }
-      // Attempt to clean up the created branch if push failed?
-      // This is complex due to potential states (commit failed, add failed etc)
-      // Best to leave the local branch for manual inspection for now.
-      throw new Error(`Git operation failed: ${error.message}`); // Re-throw for progress handler
+      throw new Error(`Git operation failed: ${errorMessage(error)}`); // Re-throw for progress handler
     }
   }
 
-  // --- Restore Functionality --- (To be implemented fully)
-  public async restoreFromBackup(branchName: string): Promise<void> {
-    if (!await this.initializeGit(true) || !this.git || !this.workspaceRoot) {
-      throw new Error("Restore failed: Git is not available or workspace not found.");
+  /**
+   * Check the files a backup adds or changes against the size limit and apply the large
+   * file policy: abort the backup, or write a tree in which oversized files are left out
+   * or replaced by Git LFS pointers. LFS needs git-lfs and a target that supports it, and
+   * is not used for encrypted backups since LFS objects would be stored unencrypted.
+   */
+  private async applyLargeFilePolicy(
+    context: IFolderBackupContext,
+    target: IBackupTarget,
+    baseTree: string,
+    treeSha: string
+  ): Promise<{ treeSha: string; largeFiles: ILargeFileOutcome[] }> {
+    const { maxSizeMB, policy } = this.configManager.getLargeFileSettings();
+    if (maxSizeMB <= 0) {
+      return { treeSha, largeFiles: [] };
+    }
+    const workspaceRoot = context.folder.uri.fsPath;
+    const oversized = await findLargeFiles(workspaceRoot, baseTree, treeSha, maxSizeMB * 1024 * 1024);
+    if (oversized.length === 0) {
+      return { treeSha, largeFiles: [] };
     }
-    const git = this.git;
-    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl();
+    const fileList = oversized.map(f => `${f.path} (${formatFileSize(f.size)})`).join(', ');
 
-    if (!targetRepoUrl) {
-        throw new Error("Restore failed: Target backup repository URL is not configured.");
+    if (policy === 'abort') {
+      throw this.errorHandler.createError(
+        ErrorType.VALIDATION,
+        `Backup of '${context.folder.name}' aborted: ${oversized.length} file(s) exceed ${maxSizeMB} MB: ${fileList}`,
+        "Large file check",
+        true
+      );
     }
-    
-    // Ensure backup remote is configured
+
+    let lfsUnavailableReason: string | undefined;
+    if (policy === 'lfs') {
+      if (!target.supportsLfs) {
+        lfsUnavailableReason = 'the backup target does not support Git LFS';
+      } else if (this.configManager.getEncryptionEnabled()) {
+        lfsUnavailableReason = 'LFS is not used for encrypted backups';
+      } else if (!await isLfsAvailable(workspaceRoot)) {
+        lfsUnavailableReason = 'git-lfs is not installed';
+      }
+    }
+
+    if (policy === 'lfs' && !lfsUnavailableReason) {
+      console.log(`Version0: Storing ${oversized.length} large files of '${context.folder.name}' through Git LFS: ${fileList}`);
+      return {
+        treeSha: await storeInLfs(workspaceRoot, treeSha, oversized),
+        largeFiles: oversized.map(f => ({ path: f.path, size: f.size, action: 'lfs' }))
+      };
+    }
+
+    vscode.window.showWarningMessage(
+      `Version0: Left ${oversized.length} file(s) over ${maxSizeMB} MB out of the backup of '${context.folder.name}'` +
+      `${lfsUnavailableReason ? ` (${lfsUnavailableReason})` : ''}: ${fileList}`
+    );
+    return {
+      treeSha: await removeFromTree(workspaceRoot, treeSha, oversized),
+      largeFiles: oversized.map(f => ({ path: f.path, size: f.size, action: 'skipped' }))
+    };
+  }
+
+  /**
+   * Push a snapshot ref as a backup branch, uploading its Git LFS objects first.
+   */
+  private async pushSnapshot(git: SimpleGit, workspaceRoot: string, remote: string, snapshotRef: string, branchName: string, hasLfsFiles: boolean): Promise<void> {
+    if (hasLfsFiles) {
+      await runGit(workspaceRoot, ['lfs', 'push', remote, snapshotRef]);
+    }
+    await git.push(remote, `${snapshotRef}:refs/heads/${branchName}`);
+  }
+
+  /**
+   * Generate the encryption key on the first encrypted backup and offer to export it,
+   * since backups cannot be restored elsewhere without it.
+   */
+  private async createEncryptionKey(): Promise<Buffer> {
+    const key = await this.encryptionService.generateKey();
+    console.log(`Version0: Created backup encryption key ${EncryptionService.keyId(key)}.`);
+    vscode.window.showWarningMessage(
+      'Version0: Created a new backup encryption key. Export it and keep it safe: encrypted backups cannot be restored without it.',
+      'Export Key'
+    ).then(choice => {
+      if (choice === 'Export Key') {
+        vscode.commands.executeCommand('version0.exportEncryptionKey');
+      }
+    });
+    return key;
+  }
+
+  /**
+   * Push a queued backup from its local snapshot ref to the target it was made for.
+   */
+  private async uploadPendingBackup(pending: IPendingUpload): Promise<UploadOutcome> {
+    const context = this.contexts.get(pending.folderUri);
+    if (!context?.git) {
+      throw new Error(`Workspace folder '${pending.folderUri}' is not open.`);
+    }
+    const git = context.git;
+    const snapshotRef = `${BackupManager.SNAPSHOT_REF_PREFIX}${pending.branchName}`;
+    if (!await this.refExists(git, snapshotRef)) {
+      return 'discarded';
+    }
+
+    const message = await git.raw(['log', '-1', '--format=%B', snapshotRef]);
+    const hasLfsFiles = !!parseBackupMetadata(message).lfsFiles;
+    await this.pushSnapshot(git, context.folder.uri.fsPath, pending.targetRepoUrl, snapshotRef, pending.branchName, hasLfsFiles);
+    if (this.configManager.getTargetBackupRepoUrl(context.folder.uri) === pending.targetRepoUrl) {
+      await git.fetch(BackupManager.BACKUP_REMOTE_NAME).catch(error => {
+        console.warn(`Version0: Fetch after uploading '${pending.branchName}' failed:`, error);
+      });
+    }
+    return 'uploaded';
+  }
+
+  /**
+   * Upload queued backups right away instead of waiting for the next retry.
+   */
+  public async uploadPendingBackups(folder?: vscode.WorkspaceFolder): Promise<{ uploaded: number; remaining: number }> {
+    return this.uploadQueue.flush(folder?.uri.toString());
+  }
+
+  /**
+   * Number of changed files and lines between two tree-ish objects. Binary files count as
+   * changed files without lines.
+   */
+  private async getDiffstat(git: SimpleGit, from: string, to: string): Promise<{ files: number; insertions: number; deletions: number }> {
+    const output = await git.raw(['diff-tree', '-r', '--numstat', '--no-renames', from, to]);
+    const result = { files: 0, insertions: 0, deletions: 0 };
+    for (const line of output.split('\n')) {
+      const [added, deleted] = line.split('\t');
+      if (!line.trim() || deleted === undefined) {
+        continue;
+      }
+      result.files++;
+      result.insertions += parseInt(added, 10) || 0;
+      result.deletions += parseInt(deleted, 10) || 0;
+    }
+    return result;
+  }
+
+  /**
+   * Tree of the newest commit in the history of `headSha` that is already on a remote,
+   * including the backup target, or the empty tree when none is.
+   */
+  private async getPublishedBaseTree(git: SimpleGit, headSha: string | undefined): Promise<string> {
+    if (!headSha) {
+      return BackupManager.EMPTY_TREE_SHA;
+    }
+    let unpublished: string[];
     try {
-        const remotes = await git.getRemotes(true);
-        let backupRemote = remotes.find(r => r.name === BackupManager.BACKUP_REMOTE_NAME);
-        if (backupRemote && backupRemote.refs.fetch !== targetRepoUrl) { // Check fetch URL for restore
-            await git.removeRemote(BackupManager.BACKUP_REMOTE_NAME);
-            backupRemote = undefined;
-        }
-        if (!backupRemote) {
-            await git.addRemote(BackupManager.BACKUP_REMOTE_NAME, targetRepoUrl);
+      unpublished = (await git.raw(['rev-list', '--boundary', headSha, '--not', '--remotes'])).split('\n').filter(Boolean);
+    } catch (error: unknown) {
+      console.warn('Version0: Could not determine the published history, scanning all files:', error);
+      return BackupManager.EMPTY_TREE_SHA;
+    }
+    if (unpublished.length === 0) {
+      return `${headSha}^{tree}`;
+    }
+    // Boundary commits ('-<sha>') are the published parents of the unpublished ones
+    const boundary = unpublished.find(line => line.startsWith('-'));
+    return boundary ? `${boundary.slice(1)}^{tree}` : BackupManager.EMPTY_TREE_SHA;
+  }
+
+  /**
+   * Build a commit for a snapshot tree on top of `parentSha`, or HEAD (if any) when omitted.
+   * A `null` parent creates a root commit. HEAD, the real index and the checked-out branch
+   * are left untouched.
+   */
+  private async createSnapshotCommit(git: SimpleGit, treeSha: string, message: string, parentSha?: string | null): Promise<string> {
+    const headSha = parentSha === null ? '' : parentSha || await git.revparse(['--verify', '--quiet', 'HEAD']).catch(() => '');
+    const commitArgs = ['commit-tree', treeSha, '-m', message];
+    if (headSha) {
+      commitArgs.push('-p', headSha);
+    }
+    return (await git.raw(commitArgs)).trim();
+  }
+
+  /**
+   * Write the current working tree (tracked and untracked, honouring .gitignore and the
+   * folder's backup rules) as a tree object, using a temporary index so the real index is never touched.
+   */
+  private async createSnapshotTree(git: SimpleGit, workspaceRoot: string): Promise<string> {
+    const gitDir = path.resolve(workspaceRoot, await git.revparse(['--git-dir']));
+    const tempIndexPath = path.join(gitDir, `version0-index-${process.pid}-${Date.now()}`);
+    const snapshotGit = simpleGit(workspaceRoot).env({ ...process.env, GIT_INDEX_FILE: tempIndexPath });
+
+    try {
+      // Seed the temporary index from the real one so unchanged files keep their cached stat data
+      await fs.copyFile(path.join(gitDir, 'index'), tempIndexPath).catch(() => undefined);
+
+      await this.stageSnapshot(snapshotGit, await this.loadBackupFilter(workspaceRoot));
+      return (await snapshotGit.raw(['write-tree'])).trim();
+    } finally {
+      await fs.rm(tempIndexPath, { force: true });
+    }
+  }
+
+  /**
+   * Point the dedicated backup remote at `targetRepoUrl`, adding or replacing it as needed.
+   */
+  private async ensureBackupRemote(git: SimpleGit, targetRepoUrl: string): Promise<void> {
+    const remotes = await git.getRemotes(true);
+    let backupRemote = remotes.find(r => r.name === BackupManager.BACKUP_REMOTE_NAME);
+
+    if (backupRemote && (backupRemote.refs.push !== targetRepoUrl || backupRemote.refs.fetch !== targetRepoUrl)) {
+      // Remote exists but points to the wrong URL, update it
+      await git.removeRemote(BackupManager.BACKUP_REMOTE_NAME);
+      backupRemote = undefined; // Treat as if it doesn't exist to re-add
+      console.log(`Version0: Updated '${BackupManager.BACKUP_REMOTE_NAME}' remote to new target URL.`);
+    }
+
+    if (!backupRemote) {
+      await git.addRemote(BackupManager.BACKUP_REMOTE_NAME, targetRepoUrl);
+      console.log(`Version0: Added remote '${BackupManager.BACKUP_REMOTE_NAME}' pointing to ${targetRepoUrl}.`);
+    }
+    // Milestone tags are fetched into their own namespace, never into the folder's tags
+    await git.addConfig(`remote.${BackupManager.BACKUP_REMOTE_NAME}.tagOpt`, '--no-tags');
+  }
+
+  private async refExists(git: SimpleGit, ref: string): Promise<boolean> {
+    const output = await git.raw(['for-each-ref', '--format=%(refname)', ref]);
+    return output.trim() === ref;
+  }
+
+  // --- Retention Functionality ---
+
+  /**
+   * Apply the configured retention policy to the folder's backup branches.
+   * With `dryRun` the branches that would be deleted are returned without deleting anything.
+   * Only branches following the Version0 naming scheme are ever considered.
+   */
+  public async pruneBackups(folder?: vscode.WorkspaceFolder, dryRun = false): Promise<IPruneResult> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder whose backups to prune');
+    const target = this.getBackupTarget(context.folder);
+    if (!target) {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIGURATION,
+        `Target backup repository URL is not configured for '${context.folder.name}'`,
+        "Prune operation",
+        true
+      );
+    }
+
+    const branches = await target.listBranches();
+    const plan = new RetentionPolicy(this.configManager.getRetentionPolicy(), this.getBranchNaming()).plan(branches);
+    // Backups marked as milestones are never pruned
+    const milestoneBranches = new Set((await this.listMilestones(context.folder)).map(m => m.branchName));
+    plan.keep.push(...plan.prune.filter(branchName => milestoneBranches.has(branchName)));
+    plan.prune = plan.prune.filter(branchName => !milestoneBranches.has(branchName));
+    const result: IPruneResult = { dryRun, kept: plan.keep, pruned: [], failed: [] };
+
+    if (dryRun) {
+      result.pruned = plan.prune;
+      return result;
+    }
+
+    for (const branchName of plan.prune) {
+      try {
+        await target.deleteBranch(branchName);
+        result.pruned.push(branchName);
+      } catch (error: unknown) {
+        result.failed.push({ branchName, error: errorMessage(error) });
+        continue;
+      }
+
+      await this.removeLocalBackupRefs(context, branchName);
+    }
+
+    return result;
+  }
+
+  // Naming of backup branches from the settings; an unusable template is a configuration error
+  private getBranchNaming(): BackupBranchNaming {
+    try {
+      return new BackupBranchNaming(this.configManager.getBackupBranchNaming());
+    } catch (error: unknown) {
+      throw this.errorHandler.createError(ErrorType.CONFIGURATION, errorMessage(error), "Backup branch naming", true);
+    }
+  }
+
+  /**
+   * Delete a single backup branch from the target repository.
+   */
+  public async deleteBackup(branchName: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder the backup belongs to');
+    const target = this.getBackupTarget(context.folder);
+    if (!target) {
+      throw new Error(`Delete failed: Target backup repository URL is not configured for '${context.folder.name}'.`);
+    }
+    if (!this.getBranchNaming().parse(branchName)) {
+      throw new Error(`Delete failed: '${branchName}' is not a Version0 backup branch.`);
+    }
+    await target.deleteBranch(branchName);
+    await this.removeLocalBackupRefs(context, branchName);
+    this._onDidChangeFolders.fire();
+  }
+
+  // Drop the local snapshot and remote-tracking refs of a deleted backup
+  private async removeLocalBackupRefs(context: IFolderBackupContext, branchName: string): Promise<void> {
+    if (!context.git) {
+      return;
+    }
+    for (const ref of [
+      `${BackupManager.SNAPSHOT_REF_PREFIX}${branchName}`,
+      `${BackupManager.DECRYPTED_REF_PREFIX}${branchName}`,
+      `refs/remotes/${BackupManager.BACKUP_REMOTE_NAME}/${branchName}`
+    ]) {
+      await context.git.raw(['update-ref', '-d', ref]).catch(() => undefined);
+    }
+  }
+
+  // --- End Retention Functionality ---
+
+  // --- Listing Functionality ---
+
+  /**
+   * List the folder's backups with the metadata recorded in each snapshot commit.
+   * Reads the fetched backup remote refs, so it works without GitHub API access.
+   */
+  public async listBackups(folder?: vscode.WorkspaceFolder): Promise<IBackupInfo[]> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder whose backups to list');
+    if (!await this.initializeGit(context) || !context.git) {
+      return [];
+    }
+    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl(context.folder.uri);
+    if (!targetRepoUrl) {
+      return [];
+    }
+    const git = context.git;
+
+    await this.ensureBackupRemote(git, targetRepoUrl);
+    await git.raw(['fetch', '--prune', BackupManager.BACKUP_REMOTE_NAME]);
+
+    const remotePrefix = `refs/remotes/${BackupManager.BACKUP_REMOTE_NAME}/`;
+    const refOutput = await git.raw([
+      'for-each-ref',
+      '--format=%(refname)%1f%(objectname)%1f%(committerdate:iso-strict)%1f%(contents)%1e',
+      remotePrefix
+    ]);
+
+    const backups: IBackupInfo[] = [];
+    // Backups made before the changed-file count was recorded
+    const uncounted: IBackupInfo[] = [];
+    for (const record of refOutput.split('\x1e')) {
+      const [refName, sha, committedAt, contents] = record.replace(/^\n/, '').split('\x1f');
+      if (!refName || !sha) {
+        continue;
+      }
+      const message = contents || '';
+      const backup = backupInfoFromCommit(refName.slice(remotePrefix.length), sha, committedAt, message);
+      if (!backup) {
+        continue;
+      }
+      backups.push(backup);
+      if (parseBackupMetadata(message).changedFiles === undefined) {
+        uncounted.push(backup);
+      }
+    }
+
+    // Count the files older snapshots changed relative to the commit they were taken from
+    const batchSize = 50;
+    for (let i = 0; i < uncounted.length; i += batchSize) {
+      const batch = uncounted.slice(i, i + batchSize);
+      const logOutput = await git.raw([
+        'log', '--no-walk=unsorted', '--root', '--name-only', '--format=%x1e%H',
+        ...batch.map(b => b.sha)
+      ]);
+      const counts = new Map<string, number>();
+      for (const entry of logOutput.split('\x1e')) {
+        const lines = entry.split('\n').filter(line => line.trim().length > 0);
+        if (lines.length > 0) {
+          counts.set(lines[0], lines.length - 1);
         }
-        // Fetch the specific branch from the backup remote
-        await git.fetch(BackupManager.BACKUP_REMOTE_NAME, branchName);
-    } catch (e: any) {
-        throw new Error(`Failed to prepare remote for restore: ${e.message}`);
+      }
+      batch.forEach(b => b.fileCount = counts.get(b.sha) || 0);
     }
 
+    return backups.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime() || compareVersions(b.version, a.version));
+  }
 
-    // Check if the branch exists locally (it might after fetch if named the same, but we want remote one)
-    // The format from fetch would be 'refs/remotes/version0_backup_target/vX.Y/timestamp'
-    const remoteBranchRef = `refs/remotes/${BackupManager.BACKUP_REMOTE_NAME}/${branchName}`;
+  // --- Milestone Functionality ---
+
+  /**
+   * List the folder's milestones, newest first, from the annotated tags on the target.
+   */
+  public async listMilestones(folder?: vscode.WorkspaceFolder): Promise<IMilestoneInfo[]> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder whose milestones to list');
+    if (!await this.initializeGit(context) || !context.git) {
+      return [];
+    }
+    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl(context.folder.uri);
+    if (!targetRepoUrl) {
+      return [];
+    }
+    await this.ensureBackupRemote(context.git, targetRepoUrl);
+    await context.git.raw([
+      'fetch', '--prune', BackupManager.BACKUP_REMOTE_NAME,
+      `+refs/tags/*:${BackupManager.MILESTONE_REF_PREFIX}*`
+    ]);
+    return this.readMilestones(context.git);
+  }
+
+  /**
+   * Mark a backup as a milestone: start the next major version with an annotated tag on
+   * the backup commit, pushed to the target. The tag message holds release notes built from
+   * the notes of the backups since the previous milestone. With `createRelease` the tag is
+   * also published as a release, when the target supports releases. Only available with the
+   * majorMinor version scheme.
+   */
+  public async markMilestone(branchName: string, title: string, createRelease: boolean, folder?: vscode.WorkspaceFolder): Promise<IMilestoneInfo> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder the backup belongs to');
+    const target = this.getBackupTarget(context.folder);
+    if (!target) {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIGURATION,
+        `Target backup repository URL is not configured for '${context.folder.name}'`,
+        "Milestone operation",
+        true
+      );
+    }
+    // Date and counter versions have no major version for a milestone to start
+    if (this.configManager.getBackupBranchNaming().versionScheme !== 'majorMinor') {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIGURATION,
+        "Milestones start a new major version and need the 'majorMinor' version scheme (version0.backupBranch.versionScheme)",
+        "Milestone operation",
+        true
+      );
+    }
+
+    const backups = await this.listBackups(context.folder);
+    const backup = backups.find(b => b.branchName === branchName);
+    if (!backup || !context.git) {
+      throw new Error(`Milestone failed: Backup '${branchName}' was not found in the target repository.`);
+    }
+    const git = context.git;
+    const milestones = await this.listMilestones(context.folder);
+    const existing = milestones.find(m => m.sha === backup.sha);
+    if (existing) {
+      throw this.errorHandler.createError(
+        ErrorType.VALIDATION,
+        `Backup '${branchName}' already is milestone ${existing.tagName}`,
+        "Milestone operation",
+        true
+      );
+    }
+
+    // Release notes cover the backups after the newest earlier milestone, up to this one
+    const backupTime = (b: { timestamp: string }) => new Date(b.timestamp).getTime();
+    const previousTime = milestones
+      .map(m => backups.find(b => b.sha === m.sha))
+      .filter((b): b is IBackupInfo => !!b && backupTime(b) < backupTime(backup))
+      .reduce((latest, b) => Math.max(latest, backupTime(b)), 0);
+    const notes = formatReleaseNotes(backups.filter(b => backupTime(b) > previousTime && backupTime(b) <= backupTime(backup)));
+
+    const version = nextMilestoneVersion([
+      ...backups.map(b => b.version),
+      ...milestones.map(m => m.version),
+      ...context.lastVersion ? [context.lastVersion] : []
+    ]);
+    const tagName = milestoneTagName(version);
+    const milestoneTitle = title.trim() || `Milestone ${tagName}`;
+    const workspaceRoot = context.folder.uri.fsPath;
+    const tagSha = await writeTag(workspaceRoot, backup.sha, tagName, formatMilestoneMessage(version, milestoneTitle, notes, branchName));
+
+    const milestoneRef = `${BackupManager.MILESTONE_REF_PREFIX}${tagName}`;
+    await git.raw(['update-ref', milestoneRef, tagSha]);
+    try {
+      await git.raw(['push', BackupManager.BACKUP_REMOTE_NAME, `${milestoneRef}:refs/tags/${tagName}`]);
+    } catch (pushError: unknown) {
+      await git.raw(['update-ref', '-d', milestoneRef]).catch(() => undefined);
+      throw new Error(`Milestone failed: Could not push tag ${tagName}: ${errorMessage(pushError)}`);
+    }
+    // Later backups continue the new major version
+    context.lastVersion = version;
+    this._onDidChangeFolders.fire();
+
+    const milestone: IMilestoneInfo = {
+      tagName,
+      version,
+      title: milestoneTitle,
+      notes,
+      branchName,
+      sha: backup.sha,
+      createdAt: new Date().toISOString()
+    };
+    if (createRelease && target.supportsReleases) {
+      try {
+        milestone.releaseUrl = await target.createRelease(tagName, milestoneTitle, notes);
+      } catch (releaseError: unknown) {
+        throw new Error(`Milestone ${tagName} was tagged, but the release could not be created: ${errorMessage(releaseError)}`);
+      }
+    }
+    return milestone;
+  }
+
+  // Milestones among the fetched tags of the target, newest first
+  private async readMilestones(git: SimpleGit): Promise<IMilestoneInfo[]> {
+    const output = await git.raw([
+      'for-each-ref',
+      '--format=%(refname:strip=2)%1f%(objecttype)%1f%(*objectname)%1f%(taggerdate:iso-strict)%1f%(contents)%1e',
+      BackupManager.MILESTONE_REF_PREFIX
+    ]);
+    const milestones: IMilestoneInfo[] = [];
+    for (const record of output.split('\x1e')) {
+      const [tagName, type, sha, createdAt, message] = record.replace(/^\n/, '').split('\x1f');
+      // Lightweight tags are never Version0 milestones
+      if (type !== 'tag' || !sha) {
+        continue;
+      }
+      const milestone = milestoneFromTag(tagName, sha, createdAt, message || '');
+      if (milestone) {
+        milestones.push(milestone);
+      }
+    }
+    return milestones.sort((a, b) => compareVersions(b.version, a.version));
+  }
+
+  // --- Restore Functionality --- (To be implemented fully)
+  /**
+   * Restore the workspace to a backup branch. Local changes are stashed, the backup is
+   * force-checked-out and the stash is re-applied. With `dryRun` nothing is changed and
+   * the result only reports which files would be overwritten and which local changes
+   * would conflict when the stash is re-applied.
+   */
+  public async restoreFromBackup(branchName: string, folder?: vscode.WorkspaceFolder, dryRun = false): Promise<IRestoreResult> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to restore');
+    if (!await this.initializeGit(context, true) || !context.git) {
+      throw new Error("Restore failed: Git is not available or workspace not found.");
+    }
+    const git = context.git;
+    const remoteBranchRef = await this.fetchBackupBranch(context, branchName, 'Restore');
+
+    let preview: { overwrittenFiles: string[]; conflictingFiles: string[] };
+    try {
+      preview = await this.previewRestore(git, context.folder.uri.fsPath, remoteBranchRef);
+    } catch (error: unknown) {
+      throw new Error(`Failed to preview restore from branch '${branchName}': ${errorMessage(error)}`);
+    }
+    const result: IRestoreResult = {
+      success: true,
+      branchName,
+      dryRun,
+      hasConflicts: preview.conflictingFiles.length > 0,
+      overwrittenFiles: preview.overwrittenFiles,
+      conflictingFiles: preview.conflictingFiles
+    };
+    if (dryRun) {
+      return result;
+    }
 
     try {
       // stash local changes
@@ -454,6 +1312,7 @@ export class BackupManager implements vscode.Disposable {
         stashMsg = `Version0_stash_before_restore_${moment().format('YYYYMMDDHHmmss')}`; // Assign here
         await git.stash(['push', '-u', '-m', stashMsg]); 
         stashed = true;
+        result.stashName = stashMsg;
         vscode.window.showInformationMessage(`Local changes stashed as: ${stashMsg}`);
       }
 
@@ -466,161 +1325,396 @@ export class BackupManager implements vscode.Disposable {
         try {
           await git.stash(['pop']);
           vscode.window.showInformationMessage(`Previously stashed changes (if any) have been reapplied.`);
-        } catch (popError: any) {
+        } catch (popError: unknown) {
+          result.hasConflicts = true;
+          const unmerged = await git.raw(['diff', '--name-only', '-z', '--diff-filter=U']).catch(() => '');
+          const unmergedFiles = unmerged.split('\0').filter(file => file.length > 0);
+          if (unmergedFiles.length > 0) {
+            result.conflictingFiles = unmergedFiles;
+          }
           vscode.window.showWarningMessage(`Could not automatically reapply stashed changes due to conflicts. Please resolve them manually. Stash was named: '${stashMsg || 'recently created stash'}'.`);
           // User needs to 'git stash pop' or 'git stash apply' and resolve conflicts
         }
       }
       
       vscode.window.showInformationMessage(`Successfully restored workspace to backup branch '${branchName}'.`);
-    } catch (error: any) {
-      throw new Error(`Failed to restore from branch '${branchName}': ${error.message}`);
+      return result;
+    } catch (error: unknown) {
+      throw new Error(`Failed to restore from branch '${branchName}': ${errorMessage(error)}`);
     }
   }
 
   /**
-   * Determine the most recent backup branch available in the target repository.
+   * Work out what a restore of `remoteBranchRef` would do without touching the workspace.
+   * Overwritten files are those whose working tree content differs from the backup.
+   * A local change is reported as conflicting when the backup also changes that file
+   * relative to HEAD in a different way, or when it is a new file the backup also contains,
+   * since re-applying the stash cannot recreate a file that already exists.
    */
-  private async getLatestBackupBranch(): Promise<string | undefined> {
-    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl();
+  private async previewRestore(git: SimpleGit, workspaceRoot: string, remoteBranchRef: string): Promise<{ overwrittenFiles: string[]; conflictingFiles: string[] }> {
+    const workingTreeSha = await this.createSnapshotTree(git, workspaceRoot);
+    const headSha = await git.revparse(['--verify', '--quiet', 'HEAD']).catch(() => '');
+    const headTree = headSha ? `${headSha}^{tree}` : BackupManager.EMPTY_TREE_SHA;
+
+    const overwritten = await this.diffTrees(git, remoteBranchRef, workingTreeSha);
+    const localChanges = await this.diffTrees(git, headTree, workingTreeSha);
+    const backupChanges = await this.diffTrees(git, headTree, remoteBranchRef);
+
+    const conflictingFiles: string[] = [];
+    for (const [file, localStatus] of localChanges) {
+      if (backupChanges.has(file) && (overwritten.has(file) || localStatus === 'A')) {
+        conflictingFiles.push(file);
+      }
+    }
+    return { overwrittenFiles: Array.from(overwritten.keys()), conflictingFiles };
+  }
+
+  /**
+   * Paths that differ between two trees, mapped to their `diff-tree` status letter (A, D, M, ...).
+   */
+  private async diffTrees(git: SimpleGit, from: string, to: string): Promise<Map<string, string>> {
+    const output = await git.raw(['diff-tree', '-r', '-z', '--name-status', from, to]);
+    const fields = output.split('\0').filter(field => field.length > 0);
+    const changes = new Map<string, string>();
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      changes.set(fields[i + 1], fields[i].charAt(0));
+    }
+    return changes;
+  }
+
+  /**
+   * Fetch a backup branch from the backup remote and return its remote-tracking ref,
+   * e.g. 'refs/remotes/version0_backup_target/vX.Y/timestamp'. Encrypted backups are
+   * decrypted first and the ref of the local plaintext commit is returned instead.
+   */
+  private async fetchBackupBranch(context: IFolderBackupContext, branchName: string, operation: string): Promise<string> {
+    if (!context.git) {
+      throw new Error(`${operation} failed: Git is not available or workspace not found.`);
+    }
+    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl(context.folder.uri);
     if (!targetRepoUrl) {
+      throw new Error(`${operation} failed: Target backup repository URL is not configured for '${context.folder.name}'.`);
+    }
+
+    // Ensure backup remote is configured
+    try {
+      await this.ensureBackupRemote(context.git, targetRepoUrl);
+      // Fetch the specific branch from the backup remote
+      await context.git.fetch(BackupManager.BACKUP_REMOTE_NAME, branchName);
+    } catch (e: unknown) {
+      throw new Error(`Failed to prepare remote for ${operation.toLowerCase()}: ${errorMessage(e)}`);
+    }
+    return this.resolveBackupRef(context, context.git, branchName, operation);
+  }
+
+  /**
+   * The ref to read a fetched backup from: its remote-tracking ref, or for an encrypted
+   * backup a local commit with the decrypted tree. That commit sits on top of the commit
+   * the backup was taken from (when it exists locally), like an unencrypted backup.
+   */
+  private async resolveBackupRef(context: IFolderBackupContext, git: SimpleGit, branchName: string, operation: string): Promise<string> {
+    const remoteBranchRef = `refs/remotes/${BackupManager.BACKUP_REMOTE_NAME}/${branchName}`;
+    const [encryptedSha, message] = (await git.raw(['log', '-1', '--format=%H%x1f%B', remoteBranchRef])).split('\x1f');
+    const metadata = parseBackupMetadata(message || '');
+    if (metadata.lfsFiles) {
+      // Download the LFS objects up front so checkouts and restores can replace the pointers
+      await runGit(context.folder.uri.fsPath, ['lfs', 'fetch', BackupManager.BACKUP_REMOTE_NAME, remoteBranchRef]).catch(error => {
+        console.warn(`Version0: Could not fetch the LFS files of '${branchName}':`, error);
+      });
+    }
+    if (!metadata.encryption) {
+      return remoteBranchRef;
+    }
+
+    const decryptedRef = `${BackupManager.DECRYPTED_REF_PREFIX}${branchName}`;
+    const decryptedFrom = `Version0-Decrypted-From: ${encryptedSha}`;
+    if (await this.refExists(git, decryptedRef) && (await git.raw(['log', '-1', '--format=%B', decryptedRef])).includes(decryptedFrom)) {
+      return decryptedRef;
+    }
+
+    const key = await this.encryptionService.getKey();
+    const keyId = metadata.encryption.split(' ')[1];
+    if (!key) {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIGURATION,
+        `Backup '${branchName}' is encrypted. Import its encryption key (${keyId}) with 'Version0: Import Encryption Key' first`,
+        operation,
+        true
+      );
+    }
+    if (EncryptionService.keyId(key) !== keyId) {
+      throw this.errorHandler.createError(
+        ErrorType.CONFIGURATION,
+        `Backup '${branchName}' is encrypted with key ${keyId}, but the stored key is ${EncryptionService.keyId(key)}. Import the matching key first`,
+        operation,
+        true
+      );
+    }
+
+    let treeSha: string;
+    try {
+      treeSha = await this.encryptionService.decryptTree(context.folder.uri.fsPath, `${remoteBranchRef}^{tree}`, key);
+    } catch (error: unknown) {
+      throw new Error(`${operation} failed: could not decrypt backup '${branchName}': ${errorMessage(error)}`);
+    }
+    const parentExists = !!metadata.headSha && await git.raw(['cat-file', '-e', `${metadata.headSha}^{commit}`]).then(() => true, () => false);
+    const parentSha = parentExists ? metadata.headSha : null;
+    const commitSha = await this.createSnapshotCommit(git, treeSha, `${message.trim()}\n${decryptedFrom}`, parentSha);
+    await git.raw(['update-ref', decryptedRef, commitSha]);
+    return decryptedRef;
+  }
+
+  // --- Compare Functionality ---
+
+  /**
+   * Files that differ between a backup and the current working tree, untracked files included.
+   * Statuses describe the working tree relative to the backup.
+   */
+  public async getBackupChanges(branchName: string, folder?: vscode.WorkspaceFolder): Promise<IBackupFileChange[]> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to compare');
+    if (!await this.initializeGit(context) || !context.git) {
+      throw new Error("Compare failed: Git is not available or workspace not found.");
+    }
+    const git = context.git;
+    const remoteBranchRef = await this.fetchBackupBranch(context, branchName, 'Compare');
+    const workingTreeSha = await this.createSnapshotTree(git, context.folder.uri.fsPath);
+
+    const changes = await this.diffTrees(git, remoteBranchRef, workingTreeSha);
+    return Array.from(changes, ([filePath, status]): IBackupFileChange => ({
+      path: filePath,
+      status: status === 'A' ? 'added' : status === 'D' ? 'deleted' : 'modified'
+    }));
+  }
+
+  /**
+   * Content of a file as stored in a backup, read from the fetched backup remote ref.
+   * Returns undefined when the file does not exist in the backup.
+   */
+  public async readBackupFile(folder: vscode.WorkspaceFolder, branchName: string, filePath: string): Promise<Buffer | undefined> {
+    const context = this.contexts.get(folder.uri.toString());
+    if (!context || !await this.initializeGit(context) || !context.git) {
       return undefined;
     }
-    const branches = await this.githubService.getBackupBranchesFromTargetUrl(targetRepoUrl);
-    if (branches.length === 0) {
+    const backupRef = await this.refExists(context.git, `refs/remotes/${BackupManager.BACKUP_REMOTE_NAME}/${branchName}`)
+      ? await this.resolveBackupRef(context, context.git, branchName, 'Read')
+      : await this.fetchBackupBranch(context, branchName, 'Read');
+    try {
+      // Read the raw blob: simple-git would decode binary files as UTF-8
+      return await runGit(context.folder.uri.fsPath, ['cat-file', 'blob', `${backupRef}:${filePath}`]);
+    } catch {
       return undefined;
     }
-    const parsed = branches
-      .map(b => {
-        const parts = b.split('/');
-        const ts = parts[1];
-        const time = moment(ts, 'YYYY-MM-DD_HH-mm-ss', true);
-        return { name: b, time: time.isValid() ? time.toDate().getTime() : 0 };
-      })
-      .filter(b => b.time > 0)
-      .sort((a, b) => b.time - a.time);
-    return parsed.length > 0 ? parsed[0].name : undefined;
   }
 
+  // --- End Compare Functionality ---
+
+  // --- Selective Restore Functionality ---
+
+  /**
+   * Paths of the files stored in a backup, optionally limited to those under `pathPrefix`
+   * (a file or directory relative to the workspace folder). Files the folder's backup rules
+   * now exclude are not listed.
+   */
+  public async listBackupFiles(branchName: string, folder?: vscode.WorkspaceFolder, pathPrefix?: string): Promise<string[]> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder the backup belongs to');
+    if (!await this.initializeGit(context) || !context.git) {
+      throw new Error("Restore failed: Git is not available or workspace not found.");
+    }
+    const remoteBranchRef = await this.fetchBackupBranch(context, branchName, 'Restore');
+    const args = ['ls-tree', '-r', '-z', '--name-only', remoteBranchRef];
+    if (pathPrefix) {
+      args.push('--', pathPrefix);
+    }
+    const output = await context.git.raw(args);
+    const filter = await this.loadBackupFilter(context.folder.uri.fsPath);
+    return output.split('\0').filter(file => file.length > 0 && !filter.isExcluded(file));
+  }
+
+  /**
+   * Write the given files from a backup into the working copy. Nothing is stashed,
+   * the index and the checked-out branch are left untouched, and files that are not
+   * part of the selection are never removed. Files the folder's backup rules exclude are
+   * skipped, so a restore never touches what backups leave alone. Returns the number of
+   * files restored.
+   */
+  public async restoreBackupFiles(branchName: string, paths: string[], folder?: vscode.WorkspaceFolder): Promise<number> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to restore into');
+    if (!await this.initializeGit(context) || !context.git) {
+      throw new Error("Restore failed: Git is not available or workspace not found.");
+    }
+    const filter = await this.loadBackupFilter(context.folder.uri.fsPath);
+    const selected = paths.filter(file => !filter.isExcluded(file));
+    if (selected.length < paths.length) {
+      console.log(`Version0: Skipping ${paths.length - selected.length} files excluded by the backup rules of '${context.folder.name}'.`);
+    }
+    if (selected.length === 0) {
+      return 0;
+    }
+    const git = context.git;
+    const remoteBranchRef = await this.fetchBackupBranch(context, branchName, 'Restore');
+
+    try {
+      // Restore in batches to avoid command line length issues. Paths are passed literally
+      // so names with glob characters do not restore files the user did not pick
+      const batchSize = 50;
+      for (let i = 0; i < selected.length; i += batchSize) {
+        const batch = selected.slice(i, i + batchSize).map(file => `:(literal)${file}`);
+        await git.raw(['restore', `--source=${remoteBranchRef}`, '--worktree', '--overlay', '--', ...batch]);
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to restore files from '${branchName}': ${errorMessage(error)}`);
+    }
+    console.log(`Version0: Restored ${selected.length} files of '${context.folder.name}' from ${branchName}.`);
+    return selected.length;
+  }
+
+  // --- End Selective Restore Functionality ---
+
   /**
-   * Restore the workspace using the latest available backup branch.
+   * Determine the most recent backup branch available in the target repository.
    */
-  public async restoreLatestBackup(): Promise<void> {
-    const latest = await this.getLatestBackupBranch();
+  private async getLatestBackupBranch(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+    // listBackups sorts newest first by the time recorded in each backup's metadata
+    const backups = await this.listBackups(folder);
+    return backups.length > 0 ? backups[0].branchName : undefined;
+  }
+
+  /**
+   * Restore the workspace using the latest available backup branch. With `dryRun` only the
+   * preview is computed; the result names the branch that would be restored.
+   */
+  public async restoreLatestBackup(folder?: vscode.WorkspaceFolder, dryRun = false): Promise<IRestoreResult> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to restore');
+    const latest = await this.getLatestBackupBranch(context.folder);
     if (!latest) {
-      throw new Error('No backup branches found to restore.');
+      throw new Error(`No backup branches found to restore for '${context.folder.name}'.`);
     }
-    await this.restoreFromBackup(latest);
+    return this.restoreFromBackup(latest, context.folder, dryRun);
   }
 
   // --- End Restore Functionality ---
 
   // --- Push Current State Functionality ---
-  public async pushCurrentState(): Promise<{ branchName: string; pullRequestUrl?: string } | void> {
-    if (!await this.initializeGit(true) || !this.git || !this.workspaceRoot) {
-      throw new Error("Push operation failed: Git is not available or workspace not found.");
+  /**
+   * Checked out branch and number of uncommitted changes of a folder.
+   */
+  public async getWorkingTreeState(folder: vscode.WorkspaceFolder): Promise<IWorkingTreeState> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder');
+    if (!await this.initializeGit(context, true) || !context.git) {
+      throw new Error("Git is not available or workspace not found.");
     }
-    const git = this.git;
-    const targetRepoUrl = this.configManager.getTargetBackupRepoUrl();
+    const status = await context.git.status();
+    return { branch: status.detached ? undefined : status.current || undefined, changedFiles: status.files.length };
+  }
 
-    if (!targetRepoUrl) {
-      vscode.window.showErrorMessage("Push failed: Target backup repository URL is not configured. Please create or set a target repository in Version0 settings.");
-      return;
+  /**
+   * Push the checked out branch to the backup target or to `origin`, first committing all
+   * uncommitted changes when a commit message is given. Pushes to the backup target are
+   * refused while encryption is on and are checked for secrets like backups are.
+   */
+  public async pushCurrentState(folder: vscode.WorkspaceFolder | undefined, options: IPushOptions): Promise<IPushResult | void> {
+    const context = await this.resolveContext(folder, 'Select the workspace folder to push');
+    if (!await this.initializeGit(context, true) || !context.git) {
+      throw new Error("Push operation failed: Git is not available or workspace not found.");
     }
+    const git = context.git;
 
-    if (!await this.githubService.isAuthenticated()) {
-      const authenticated = await this.githubService.authenticate();
-      if (!authenticated) {
-        vscode.window.showErrorMessage("Push failed: GitHub authentication required.");
+    let remote: string;
+    let remoteUrl: string;
+    let target: IBackupTarget | undefined;
+    if (options.destination === 'backup') {
+      const targetRepoUrl = this.configManager.getTargetBackupRepoUrl(context.folder.uri);
+      if (!targetRepoUrl) {
+        vscode.window.showErrorMessage(`Push failed: Target backup repository URL is not configured for '${context.folder.name}'. Please create or set a target repository in Version0 settings.`);
         return;
       }
-    }
-    
-    // Configure the dedicated backup remote (same as in performBackup)
-    try {
-      const remotes = await git.getRemotes(true);
-      let backupRemote = remotes.find(r => r.name === BackupManager.BACKUP_REMOTE_NAME);
-      if (backupRemote && backupRemote.refs.push !== targetRepoUrl) {
-        await git.removeRemote(BackupManager.BACKUP_REMOTE_NAME);
-        backupRemote = undefined;
+      // The branch would reach the target unencrypted
+      if (this.configManager.getEncryptionEnabled()) {
+        throw new Error("Push operation failed: Backups are encrypted, so branches are not pushed to the backup target in plain text. Push to 'origin' instead.");
       }
-      if (!backupRemote) {
-        await git.addRemote(BackupManager.BACKUP_REMOTE_NAME, targetRepoUrl);
+
+      target = this.createTarget(context.folder, targetRepoUrl);
+      if (!await target.ensureReady()) {
+        vscode.window.showErrorMessage(target.kind === 'github'
+          ? "Push failed: GitHub authentication required."
+          : `Push failed: Backup target '${targetRepoUrl}' is not usable.`);
+        return;
+      }
+
+      // Configure the dedicated backup remote (same as in performBackup)
+      try {
+        await this.ensureBackupRemote(git, targetRepoUrl);
+      } catch (remoteError: unknown) {
+        throw new Error(`Failed to configure backup remote '${BackupManager.BACKUP_REMOTE_NAME}' for push: ${errorMessage(remoteError)}`);
       }
-    } catch (remoteError: any) {
-      throw new Error(`Failed to configure backup remote '${BackupManager.BACKUP_REMOTE_NAME}' for push: ${remoteError.message}`);
+      remote = BackupManager.BACKUP_REMOTE_NAME;
+      remoteUrl = targetRepoUrl;
+    } else {
+      const originUrl = await this.getOriginUrl(context.folder);
+      if (!originUrl) {
+        throw new Error(`Push operation failed: '${context.folder.name}' has no 'origin' remote.`);
+      }
+      remote = 'origin';
+      remoteUrl = originUrl;
     }
 
     try {
       const status = await git.status();
-      if (!status.current) {
+      if (!status.current || status.detached) {
         throw new Error("Could not determine the current branch. Please ensure you are on a branch.");
       }
       const currentBranch = status.current;
 
-      // Optional: Add and commit any uncommitted changes before pushing?
-      // For "Push Current Branch", we assume the user wants to push the branch as-is,
-      // or they should commit manually first. Let's not auto-commit here.
-      // if (!status.isClean()) {
-      //   const commitChoice = await vscode.window.showInformationMessage(
-      //     "You have uncommitted changes. Commit them before pushing?",
-      //     { modal: true }, "Commit and Push", "Push without Committing"
-      //   );
-      //   if (commitChoice === "Commit and Push") {
-      //     await git.add('.');
-      //     await git.commit(`Version0: Pushing current state of branch ${currentBranch}`);
-      //   } else if (commitChoice !== "Push without Committing") {
-      //     return; // Cancelled
-      //   }
-      // }
-
-      await git.push(BackupManager.BACKUP_REMOTE_NAME, currentBranch, { '--set-upstream': null });
-      
-      vscode.window.showInformationMessage(`Successfully pushed branch '${currentBranch}' to backup target.`);
-
-      // Construct a potential PR URL - this is a best guess
-      const repoInfo = this.parseRepoUrlForPR(targetRepoUrl); // Need to implement or reuse this
-      let pullRequestUrl: string | undefined = undefined;
-      if (repoInfo) {
-        pullRequestUrl = `https://github.com/${repoInfo.owner}/${repoInfo.repo}/pull/new/${currentBranch}`;
+      let committed = false;
+      if (options.commitMessage && !status.isClean()) {
+        await git.add(['-A']);
+        await git.commit(options.commitMessage);
+        committed = true;
+      }
+      if (options.destination === 'backup') {
+        await this.checkPushForSecrets(context.folder, git, committed);
       }
-      
-      return { branchName: currentBranch, pullRequestUrl };
 
-    } catch (error: any) {
+      // Only origin becomes the branch's upstream; the backup remote stays Version0's own
+      await git.push(remote, currentBranch, options.destination === 'origin' ? { '--set-upstream': null } : {});
+      const head = await git.log({ maxCount: 1 });
+
+      return {
+        branchName: currentBranch,
+        remoteUrl,
+        committed,
+        headSubject: head.latest?.message || currentBranch,
+        pullRequestUrl: target?.getNewPullRequestWebUrl(currentBranch)
+      };
+    } catch (error: unknown) {
       console.error("Version0: Push current state operation failed:", error);
-      throw new Error(`Push operation failed: ${error.message}`);
+      throw new Error(`Push operation failed: ${errorMessage(error)}`);
     }
   }
-  
-  // Helper to parse owner/repo for PR URL (can be simplified if GithubService has a public one)
-  private parseRepoUrlForPR(url: string): { owner: string; repo: string } | null {
-    try {
-      if (url.startsWith('https:')) {
-        const urlObj = new URL(url);
-        if (urlObj.hostname !== 'github.com') return null;
-        const pathParts = urlObj.pathname.split('/').filter(Boolean);
-        if (pathParts.length < 2) return null;
-        const repoName = pathParts[1].endsWith('.git') ? pathParts[1].slice(0, -4) : pathParts[1];
-        return { owner: pathParts[0], repo: repoName };
-      } else if (url.startsWith('git@')) {
-        // git@github.com:owner/repo.git
-        const match = url.match(/git@github\.com:([^/]+)\/([^.]+)(\.git)?/);
-        if (match && match[1] && match[2]) {
-            return { owner: match[1], repo: match[2] };
-        }
-      }
-    } catch (e) { /* ignore */ }
-    return null;
-  }
 
+  // Scan what a push of HEAD publishes, as backups are scanned. Secrets in commits cannot be
+  // redacted, so any finding blocks the push.
+  private async checkPushForSecrets(folder: vscode.WorkspaceFolder, git: SimpleGit, committed: boolean): Promise<void> {
+    if (!this.configManager.getSecretScanning().enabled) {
+      return;
+    }
+    const headSha = (await git.revparse(['HEAD'])).trim();
+    const findings = await this.secretScanner.scan(folder, await this.getPublishedBaseTree(git, headSha), `${headSha}^{tree}`);
+    if (findings.length === 0) {
+      return;
+    }
+    this._onDidFindSecrets.fire({ folder, findings, blocked: true, operation: 'push' });
+    throw new Error(`${findings.length} possible secret(s) found in the commits to push${committed ? ' (your changes were committed locally)' : ''}. Remove them or allow-list the findings, then push again.`);
+  }
+  
   /** Dispose resources such as timers */
   public dispose(): void {
     this.stop();
+    this.disposables.forEach(d => d.dispose());
+    this.contexts.clear();
   }
 
   // Remove old methods
   // public async addRepository(url: string): Promise<void> { ... }
   // private async backupRepository(repository: Repository): Promise<void> { ... }
-  // private async cleanupOldBranches(repository: Repository): Promise<void> { ... }
 } 
\ No newline at end of file
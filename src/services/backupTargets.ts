@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import simpleGit, { SimpleGit } from 'simple-git';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { GithubService } from './githubService';
+import { BackupTargetKind, IBackupTarget } from '../types/interfaces';
+import { isTargetReachable } from '../utils/connectivity';
+import { errorMessage } from '../utils/errorHandler';
+
+/**
+ * A GitHub repository, managed through the GitHub API.
+ */
+export class GitHubBackupTarget implements IBackupTarget {
+  public readonly kind: BackupTargetKind = 'github';
+  public readonly supportsLfs: boolean = true;
+  public readonly supportsReleases: boolean = true;
+
+  constructor(public readonly url: string, private readonly githubService: GithubService) {}
+
+  public async ensureReady(): Promise<boolean> {
+    if (await this.githubService.isAuthenticated()) {
+      return true;
+    }
+    // Offline with a stored token: the push will fail and the backup is queued for upload
+    if (await this.githubService.hasToken() && !await isTargetReachable(this.url)) {
+      return true;
+    }
+    return this.githubService.authenticate();
+  }
+
+  public checkAccess(): Promise<{status: 'success' | 'error', message: string}> {
+    return this.githubService.checkRepositoryAccess(this.url);
+  }
+
+  public listBranches(): Promise<string[]> {
+    return this.githubService.getBackupBranchesFromTargetUrl(this.url);
+  }
+
+  public deleteBranch(branchName: string): Promise<void> {
+    return this.githubService.deleteBranch(this.url, branchName);
+  }
+
+  public getBranchWebUrl(branchName: string): string | undefined {
+    return this.githubService.getBranchWebUrl(this.url, branchName);
+  }
+
+  public getCompareWebUrl(baseBranch: string, headBranch: string): string | undefined {
+    return this.githubService.getCompareWebUrl(this.url, baseBranch, headBranch);
+  }
+
+  public getNewPullRequestWebUrl(branchName: string): string | undefined {
+    return this.githubService.getNewPullRequestWebUrl(this.url, branchName);
+  }
+
+  public createRelease(tagName: string, title: string, notes: string): Promise<string | undefined> {
+    return this.githubService.createRelease(this.url, tagName, title, notes);
+  }
+}
+
+/**
+ * Any git remote URL (self-hosted servers, SSH hosts, ...). Everything is done with git
+ * itself, using the credentials git is configured with.
+ */
+export class GitRemoteBackupTarget implements IBackupTarget {
+  public readonly kind: BackupTargetKind = 'git';
+  // Most hosted git servers accept LFS; a failed LFS push queues the backup like any push failure
+  public readonly supportsLfs: boolean = true;
+  public readonly supportsReleases: boolean = false;
+  protected readonly git: SimpleGit;
+
+  constructor(public readonly url: string, workspaceRoot: string) {
+    this.git = simpleGit(workspaceRoot);
+  }
+
+  public async ensureReady(): Promise<boolean> {
+    return true;
+  }
+
+  public async checkAccess(): Promise<{status: 'success' | 'error', message: string}> {
+    try {
+      await this.git.listRemote([this.url, 'HEAD']);
+      return { status: 'success', message: 'Repository accessible.' };
+    } catch (error: unknown) {
+      return { status: 'error', message: `Failed to access repository ${this.url}: ${errorMessage(error)}` };
+    }
+  }
+
+  public async listBranches(): Promise<string[]> {
+    const output = await this.git.listRemote(['--heads', this.url]);
+    return output.split('\n')
+      .map(line => line.split('\t')[1])
+      .filter((ref): ref is string => !!ref && ref.startsWith('refs/heads/'))
+      .map(ref => ref.replace(/^refs\/heads\//, ''));
+  }
+
+  public async deleteBranch(branchName: string): Promise<void> {
+    try {
+      await this.git.push(this.url, branchName, { '--delete': null });
+    } catch (error: unknown) {
+      throw new Error(`Failed to delete branch '${branchName}': ${errorMessage(error)}`);
+    }
+  }
+
+  public getBranchWebUrl(): string | undefined {
+    return undefined;
+  }
+
+  public getCompareWebUrl(): string | undefined {
+    return undefined;
+  }
+
+  public getNewPullRequestWebUrl(): string | undefined {
+    return undefined;
+  }
+
+  public async createRelease(): Promise<string | undefined> {
+    return undefined;
+  }
+}
+
+/**
+ * A bare repository on disk, e.g. on an external drive. It is created on first use,
+ * so backups work fully offline.
+ */
+export class LocalBackupTarget extends GitRemoteBackupTarget {
+  public readonly kind: BackupTargetKind = 'local';
+  public readonly supportsLfs: boolean = false;
+
+  public async ensureReady(): Promise<boolean> {
+    const repoPath = localTargetPath(this.url);
+    if (await this.isBareRepository(repoPath)) {
+      return true;
+    }
+    const entries = await fs.readdir(repoPath).catch(() => undefined);
+    if (entries && entries.length > 0) {
+      vscode.window.showErrorMessage(`Version0: '${repoPath}' exists but is not a bare Git repository.`);
+      return false;
+    }
+    await fs.mkdir(repoPath, { recursive: true });
+    await simpleGit(repoPath).init(true);
+    console.log(`Version0: Created local backup repository at ${repoPath}.`);
+    return true;
+  }
+
+  public async checkAccess(): Promise<{status: 'success' | 'error', message: string}> {
+    const repoPath = localTargetPath(this.url);
+    if (!await this.isBareRepository(repoPath)) {
+      return { status: 'error', message: `No bare Git repository at ${repoPath}. It is created by the first backup.` };
+    }
+    return { status: 'success', message: `Local repository ${repoPath} accessible.` };
+  }
+
+  private async isBareRepository(repoPath: string): Promise<boolean> {
+    if (!await fs.stat(repoPath).then(s => s.isDirectory()).catch(() => false)) {
+      return false;
+    }
+    try {
+      return (await simpleGit(repoPath).raw(['rev-parse', '--is-bare-repository'])).trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+}
+
+function localTargetPath(url: string): string {
+  return url.startsWith('file://') ? vscode.Uri.parse(url).fsPath : url;
+}
+
+/**
+ * Which kind of target a URL refers to: local paths and file:// URLs are local bare
+ * repositories, GitHub URLs use the GitHub API, anything else is a plain git remote.
+ */
+export function detectBackupTargetKind(url: string, githubService: GithubService): BackupTargetKind {
+  if (url.startsWith('file://') || path.isAbsolute(url) || /^[a-zA-Z]:[\\/]/.test(url)) {
+    return 'local';
+  }
+  return githubService.isGitHubRepoUrl(url) ? 'github' : 'git';
+}
+
+export function createBackupTarget(
+  url: string,
+  kind: BackupTargetKind,
+  githubService: GithubService,
+  workspaceRoot: string
+): IBackupTarget {
+  switch (kind) {
+    case 'github':
+      return new GitHubBackupTarget(url, githubService);
+    case 'local':
+      return new LocalBackupTarget(url, workspaceRoot);
+    default:
+      return new GitRemoteBackupTarget(url, workspaceRoot);
+  }
+}
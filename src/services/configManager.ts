@@ -1,9 +1,16 @@
 import * as vscode from 'vscode';
+import { BackupTargetKind, IBackupBranchNaming, IBackupFilterSettings, IBackupTriggers, ILargeFileSettings, ILastBackupTree, IPendingUpload, IRetentionPolicy, ISecretScanning, LargeFilePolicy, SecretScanAction, VersionScheme } from '../types/interfaces';
+import { DEFAULT_BACKUP_BRANCH_TEMPLATE } from '../utils/backupBranch';
+
+export type TargetRepoStorage = 'workspaceState' | 'workspaceSettings';
 
 export class ConfigManager {
   private context: vscode.ExtensionContext;
   private configuration: vscode.WorkspaceConfiguration;
-  private sessionTargetRepoUrl: string | undefined = undefined;
+  private static readonly TARGET_REPO_STATE_KEY = 'version0.targetRepoUrls';
+  private static readonly LAST_BACKUP_TREE_STATE_KEY = 'version0.lastBackupTrees';
+  private static readonly PENDING_UPLOADS_STATE_KEY = 'version0.pendingUploads';
+  private static readonly SECRET_ALLOWLIST_STATE_KEY = 'version0.secretAllowlist';
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
@@ -15,8 +22,18 @@ export class ConfigManager {
         if (e.affectsConfiguration('version0')) {
           this.configuration = vscode.workspace.getConfiguration('version0');
         }
+        if (e.affectsConfiguration('version0.targetRepoStorage')) {
+          this.migrateTargetBackupRepoUrls().catch(err => {
+            console.error('Version0: Failed to migrate target repository URLs:', err);
+          });
+        }
       })
     );
+
+    // Carry targets saved in the other storage location over to the selected one
+    this.migrateTargetBackupRepoUrls().catch(err => {
+      console.error('Version0: Failed to migrate target repository URLs:', err);
+    });
   }
   
   // GitHub Token management
@@ -29,15 +46,140 @@ export class ConfigManager {
   async setGitHubToken(token: string): Promise<void> {
     await this.context.secrets.store('version0.githubToken', token);
   }
+
+  // Backup encryption key (base64), kept in secret storage like the token
+  async getEncryptionKey(): Promise<string | undefined> {
+    const key = await this.context.secrets.get('version0.encryptionKey');
+    if (!key || key.trim() === '') return undefined;
+    return key;
+  }
+
+  async setEncryptionKey(key: string): Promise<void> {
+    await this.context.secrets.store('version0.encryptionKey', key);
+  }
   
-  // Target Repository Setting (Session-only)
-  getTargetBackupRepoUrl(): string | undefined {
-    return this.sessionTargetRepoUrl;
+  // Target Repository Setting (persisted per workspace folder)
+  getTargetRepoStorage(): TargetRepoStorage {
+    return this.configuration.get<TargetRepoStorage>('targetRepoStorage') || 'workspaceState';
+  }
+
+  getTargetBackupRepoUrl(folderUri: vscode.Uri): string | undefined {
+    if (this.getTargetRepoStorage() === 'workspaceSettings') {
+      const url = vscode.workspace.getConfiguration('version0', folderUri).get<string>('targetBackupRepoUrl');
+      return url && url.trim() !== '' ? url : undefined;
+    }
+    return this.getStoredTargetRepoUrls()[folderUri.toString()];
+  }
+
+  getBackupTargetType(folderUri: vscode.Uri): BackupTargetKind | 'auto' {
+    return vscode.workspace.getConfiguration('version0', folderUri).get<BackupTargetKind | 'auto'>('backupTargetType') || 'auto';
+  }
+
+  getBackupFilterSettings(folderUri: vscode.Uri): IBackupFilterSettings {
+    const configuration = vscode.workspace.getConfiguration('version0', folderUri);
+    return {
+      exclude: configuration.get<string[]>('backup.exclude') || [],
+      include: configuration.get<string[]>('backup.include') || []
+    };
+  }
+
+  async setTargetBackupRepoUrl(folderUri: vscode.Uri, url: string | undefined): Promise<void> {
+    if (this.getTargetRepoStorage() === 'workspaceSettings') {
+      await this.updateTargetRepoSetting(folderUri, url);
+    } else {
+      await this.updateStoredTargetRepoUrl(folderUri, url);
+    }
+  }
+
+  async clearTargetBackupRepoUrl(folderUri: vscode.Uri): Promise<void> {
+    await this.setTargetBackupRepoUrl(folderUri, undefined);
+  }
+
+  /**
+   * Move target URLs from the unselected storage location into the selected one.
+   * Folders that already have a target in the selected location are left alone.
+   */
+  async migrateTargetBackupRepoUrls(): Promise<void> {
+    const useSettings = this.getTargetRepoStorage() === 'workspaceSettings';
+    // A workspace-level setting can apply to several folders, so it is cleared after all of them moved
+    let clearWorkspaceSetting = false;
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const stateUrl = this.getStoredTargetRepoUrls()[folder.uri.toString()];
+      const inspected = vscode.workspace.getConfiguration('version0', folder.uri).inspect<string>('targetBackupRepoUrl');
+      const settingUrl = inspected?.workspaceFolderValue || inspected?.workspaceValue;
+
+      if (useSettings && stateUrl) {
+        if (!settingUrl) {
+          await this.updateTargetRepoSetting(folder.uri, stateUrl);
+        }
+        await this.updateStoredTargetRepoUrl(folder.uri, undefined);
+        console.log(`Version0: Migrated target repository for '${folder.name}' to workspace settings.`);
+      } else if (!useSettings && settingUrl) {
+        if (!stateUrl) {
+          await this.updateStoredTargetRepoUrl(folder.uri, settingUrl);
+        }
+        // Left in place, the setting would come back after "Clear Target Repository"
+        if (inspected?.workspaceFolderValue) {
+          await this.updateTargetRepoSetting(folder.uri, undefined);
+        }
+        clearWorkspaceSetting = clearWorkspaceSetting || !!inspected?.workspaceValue;
+        console.log(`Version0: Migrated target repository for '${folder.name}' to workspace state.`);
+      }
+    }
+    if (clearWorkspaceSetting) {
+      await vscode.workspace.getConfiguration('version0')
+        .update('targetBackupRepoUrl', undefined, vscode.ConfigurationTarget.Workspace);
+    }
+  }
+
+  // Tree of the last successful backup (persisted per workspace folder)
+  getLastBackupTree(folderUri: vscode.Uri): ILastBackupTree | undefined {
+    return this.context.workspaceState.get<Record<string, ILastBackupTree>>(ConfigManager.LAST_BACKUP_TREE_STATE_KEY)?.[folderUri.toString()];
+  }
+
+  async setLastBackupTree(folderUri: vscode.Uri, tree: ILastBackupTree): Promise<void> {
+    const trees = { ...this.context.workspaceState.get<Record<string, ILastBackupTree>>(ConfigManager.LAST_BACKUP_TREE_STATE_KEY) };
+    trees[folderUri.toString()] = tree;
+    await this.context.workspaceState.update(ConfigManager.LAST_BACKUP_TREE_STATE_KEY, trees);
+  }
+
+  // Fingerprints of secret findings the user accepted (persisted per workspace folder)
+  getSecretAllowlist(folderUri: vscode.Uri): string[] {
+    return this.context.workspaceState.get<Record<string, string[]>>(ConfigManager.SECRET_ALLOWLIST_STATE_KEY)?.[folderUri.toString()] || [];
+  }
+
+  async setSecretAllowlist(folderUri: vscode.Uri, fingerprints: string[]): Promise<void> {
+    const allowlists = { ...this.context.workspaceState.get<Record<string, string[]>>(ConfigManager.SECRET_ALLOWLIST_STATE_KEY) };
+    allowlists[folderUri.toString()] = fingerprints;
+    await this.context.workspaceState.update(ConfigManager.SECRET_ALLOWLIST_STATE_KEY, allowlists);
   }
 
-  async setTargetBackupRepoUrl(url: string): Promise<void> {
-    // Store only in session, not in persistent configuration
-    this.sessionTargetRepoUrl = url;
+  // Backups waiting to be pushed; kept in global state so they survive window reloads
+  getPendingUploads(): IPendingUpload[] {
+    return this.context.globalState.get<IPendingUpload[]>(ConfigManager.PENDING_UPLOADS_STATE_KEY) || [];
+  }
+
+  async setPendingUploads(uploads: IPendingUpload[]): Promise<void> {
+    await this.context.globalState.update(ConfigManager.PENDING_UPLOADS_STATE_KEY, uploads);
+  }
+
+  private getStoredTargetRepoUrls(): Record<string, string> {
+    return this.context.workspaceState.get<Record<string, string>>(ConfigManager.TARGET_REPO_STATE_KEY) || {};
+  }
+
+  private async updateStoredTargetRepoUrl(folderUri: vscode.Uri, url: string | undefined): Promise<void> {
+    const urls = { ...this.getStoredTargetRepoUrls() };
+    if (url) {
+      urls[folderUri.toString()] = url;
+    } else {
+      delete urls[folderUri.toString()];
+    }
+    await this.context.workspaceState.update(ConfigManager.TARGET_REPO_STATE_KEY, urls);
+  }
+
+  private async updateTargetRepoSetting(folderUri: vscode.Uri, url: string | undefined): Promise<void> {
+    await vscode.workspace.getConfiguration('version0', folderUri)
+      .update('targetBackupRepoUrl', url, vscode.ConfigurationTarget.WorkspaceFolder);
   }
   
   // Settings getters
@@ -52,6 +194,79 @@ export class ConfigManager {
   getAutoStart(): boolean {
     return this.configuration.get<boolean>('autoStart') || false;
   }
+
+  getRetentionPolicy(): IRetentionPolicy {
+    return {
+      enabled: this.configuration.get<boolean>('retention.enabled') || false,
+      keepLast: this.configuration.get<number>('retention.keepLast') || 0,
+      keepWithinDays: this.configuration.get<number>('retention.keepWithinDays') || 0,
+      keepHourly: this.configuration.get<number>('retention.keepHourly') || 0,
+      keepDaily: this.configuration.get<number>('retention.keepDaily') || 0,
+      keepWeekly: this.configuration.get<number>('retention.keepWeekly') || 0,
+      keepMonthly: this.configuration.get<number>('retention.keepMonthly') || 0
+    };
+  }
+  
+  getBackupTriggers(): IBackupTriggers {
+    return {
+      saveEnabled: this.configuration.get<boolean>('triggers.saveEnabled') || false,
+      saveCount: this.configuration.get<number>('triggers.saveCount') || 10,
+      idleEnabled: this.configuration.get<boolean>('triggers.idleEnabled') || false,
+      editMinutes: this.configuration.get<number>('triggers.editMinutes') ?? 5,
+      idleMinutes: this.configuration.get<number>('triggers.idleMinutes') || 2,
+      windowBlurEnabled: this.configuration.get<boolean>('triggers.windowBlurEnabled') || false,
+      debounceSeconds: this.configuration.get<number>('triggers.debounceSeconds') ?? 30,
+      minGapMinutes: this.configuration.get<number>('triggers.minGapMinutes') ?? 10
+    };
+  }
+  
+  // GitHub host: github.com or a GitHub Enterprise Server
+  getGitHubWebUrl(): string {
+    const url = (this.configuration.get<string>('github.webUrl') || '').trim();
+    return (url || 'https://github.com').replace(/\/+$/, '');
+  }
+
+  getGitHubApiUrl(): string {
+    const url = (this.configuration.get<string>('github.apiUrl') || '').trim();
+    if (url) {
+      return url.replace(/\/+$/, '');
+    }
+    // GitHub Enterprise Server serves the REST API under /api/v3 of the web host
+    return this.isGitHubEnterprise() ? `${this.getGitHubWebUrl()}/api/v3` : 'https://api.github.com';
+  }
+
+  isGitHubEnterprise(): boolean {
+    return this.getGitHubWebUrl() !== 'https://github.com';
+  }
+
+  getSafetyBackupsEnabled(): boolean {
+    return this.configuration.get<boolean>('safetyBackups.enabled') ?? true;
+  }
+
+  getEncryptionEnabled(): boolean {
+    return this.configuration.get<boolean>('encryption.enabled') ?? false;
+  }
+
+  getLargeFileSettings(): ILargeFileSettings {
+    return {
+      maxSizeMB: this.configuration.get<number>('largeFiles.maxSizeMB') ?? 50,
+      policy: this.configuration.get<LargeFilePolicy>('largeFiles.policy') || 'skip'
+    };
+  }
+
+  getBackupBranchNaming(): IBackupBranchNaming {
+    return {
+      template: this.configuration.get<string>('backupBranch.template') || DEFAULT_BACKUP_BRANCH_TEMPLATE,
+      versionScheme: this.configuration.get<VersionScheme>('backupBranch.versionScheme') || 'majorMinor'
+    };
+  }
+
+  getSecretScanning(): ISecretScanning {
+    return {
+      enabled: this.configuration.get<boolean>('secretScanning.enabled') ?? true,
+      action: this.configuration.get<SecretScanAction>('secretScanning.action') || 'block'
+    };
+  }
   
   // Settings setters
   async setBackupInterval(interval: number): Promise<void> {
@@ -65,4 +280,10 @@ export class ConfigManager {
   async setAutoStart(enable: boolean): Promise<void> {
     await this.configuration.update('autoStart', enable, vscode.ConfigurationTarget.Global);
   }
-} 
\ No newline at end of file
+
+  async setBackupTriggers(triggers: Partial<IBackupTriggers>): Promise<void> {
+    for (const [key, value] of Object.entries(triggers)) {
+      await this.configuration.update(`triggers.${key}`, value, vscode.ConfigurationTarget.Global);
+    }
+  }
+} 
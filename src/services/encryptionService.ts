@@ -0,0 +1,217 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { ConfigManager } from './configManager';
+import { getGitDir, listTree, readBlobs, writeBlob, writeTree } from '../utils/gitObjects';
+
+// Encrypted blob layout: magic, key id, IV, GCM auth tag, ciphertext
+const BLOB_MAGIC = Buffer.from('V0E1');
+const KEY_ID_LENGTH = 8;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = BLOB_MAGIC.length + KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH;
+
+// Exported keys look like 'version0-key-v1:<base64>'
+const EXPORT_PREFIX = 'version0-key-v1:';
+const KEY_LENGTH = 32;
+
+// Blobs read per `git cat-file --batch` call
+const READ_BATCH_SIZE = 200;
+const CACHE_FILE_NAME = 'version0-encryption-cache.json';
+// Blob mappings kept per direction; the oldest are dropped first
+const MAX_CACHED_BLOBS = 20000;
+
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+// Blob mappings already computed for a key, persisted in the git directory
+interface IKeyCache {
+  encrypted: Record<string, string>;
+  decrypted: Record<string, string>;
+}
+
+/**
+ * Client-side encryption of backup snapshots. Every blob of a snapshot tree is encrypted
+ * with AES-256-GCM under a key kept in VS Code's secret storage, and the tree is rebuilt
+ * from the encrypted blobs; paths stay readable so backups can still be browsed.
+ *
+ * The IV is derived from the plaintext blob id, so an unchanged file encrypts to the same
+ * blob in every backup and pushes stay incremental. This reveals which files are equal
+ * between backups, but nothing about their content.
+ */
+export class EncryptionService {
+  private configManager: ConfigManager;
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+  }
+
+  /**
+   * Short identifier of a key, recorded with each encrypted backup.
+   */
+  public static keyId(key: Buffer): string {
+    return crypto.createHash('sha256').update(key).digest().subarray(0, KEY_ID_LENGTH).toString('hex');
+  }
+
+  public async hasKey(): Promise<boolean> {
+    return !!await this.configManager.getEncryptionKey();
+  }
+
+  /**
+   * The stored key, or undefined when none has been created or imported.
+   */
+  public async getKey(): Promise<Buffer | undefined> {
+    const stored = await this.configManager.getEncryptionKey();
+    return stored ? Buffer.from(stored, 'base64') : undefined;
+  }
+
+  /**
+   * Create and store a new random key. Any previous key is replaced.
+   */
+  public async generateKey(): Promise<Buffer> {
+    const key = crypto.randomBytes(KEY_LENGTH);
+    await this.configManager.setEncryptionKey(key.toString('base64'));
+    return key;
+  }
+
+  /**
+   * The stored key in a portable text form, for restoring on another machine.
+   */
+  public async exportKey(): Promise<string | undefined> {
+    const key = await this.getKey();
+    return key ? `${EXPORT_PREFIX}${key.toString('base64')}` : undefined;
+  }
+
+  /**
+   * Store a key exported with `exportKey`. Returns the key id.
+   */
+  public async importKey(exported: string): Promise<string> {
+    const trimmed = exported.trim();
+    if (!trimmed.startsWith(EXPORT_PREFIX)) {
+      throw new Error('Invalid encryption key format: expected a key exported by Version0.');
+    }
+    const key = Buffer.from(trimmed.slice(EXPORT_PREFIX.length), 'base64');
+    if (key.length !== KEY_LENGTH) {
+      throw new Error('Invalid encryption key: wrong length.');
+    }
+    await this.configManager.setEncryptionKey(key.toString('base64'));
+    return EncryptionService.keyId(key);
+  }
+
+  /**
+   * Build a tree with the same paths as `treeSha` whose blobs are encrypted with `key`.
+   */
+  public async encryptTree(workspaceRoot: string, treeSha: string, key: Buffer): Promise<string> {
+    const cipherKey = deriveKey(key, 'encryption');
+    const ivKey = deriveKey(key, 'iv');
+    const keyId = Buffer.from(EncryptionService.keyId(key), 'hex');
+    return this.transformTree(workspaceRoot, treeSha, key, 'encrypted', (plainSha, content) => {
+      const iv = crypto.createHmac('sha256', ivKey).update(plainSha).digest().subarray(0, IV_LENGTH);
+      const cipher = crypto.createCipheriv(ENCRYPTION_ALGORITHM, cipherKey, iv);
+      const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+      return Buffer.concat([BLOB_MAGIC, keyId, iv, cipher.getAuthTag(), ciphertext]);
+    });
+  }
+
+  /**
+   * Build the plaintext tree of an encrypted backup tree. Fails when a blob was encrypted
+   * with a different key or has been tampered with.
+   */
+  public async decryptTree(workspaceRoot: string, treeSha: string, key: Buffer): Promise<string> {
+    const cipherKey = deriveKey(key, 'encryption');
+    const keyId = EncryptionService.keyId(key);
+    return this.transformTree(workspaceRoot, treeSha, key, 'decrypted', (_encryptedSha, content, filePath) => {
+      if (content.length < HEADER_LENGTH || !content.subarray(0, BLOB_MAGIC.length).equals(BLOB_MAGIC)) {
+        throw new Error(`'${filePath}' in the backup is not encrypted by Version0.`);
+      }
+      let offset = BLOB_MAGIC.length;
+      const blobKeyId = content.subarray(offset, offset += KEY_ID_LENGTH).toString('hex');
+      if (blobKeyId !== keyId) {
+        throw new Error(`The backup was encrypted with key ${blobKeyId}, but the stored key is ${keyId}. Import the matching key first.`);
+      }
+      const iv = content.subarray(offset, offset += IV_LENGTH);
+      const tag = content.subarray(offset, offset += TAG_LENGTH);
+      const decipher = crypto.createDecipheriv(ENCRYPTION_ALGORITHM, cipherKey, iv);
+      decipher.setAuthTag(tag);
+      try {
+        return Buffer.concat([decipher.update(content.subarray(offset)), decipher.final()]);
+      } catch {
+        throw new Error(`Could not decrypt '${filePath}': the backup is corrupted or was modified.`);
+      }
+    });
+  }
+
+  // Rewrite every blob of a tree through `transform` and write the resulting tree
+  private async transformTree(
+    workspaceRoot: string,
+    treeSha: string,
+    key: Buffer,
+    direction: keyof IKeyCache,
+    transform: (blobSha: string, content: Buffer, filePath: string) => Buffer
+  ): Promise<string> {
+    const gitDir = await getGitDir(workspaceRoot);
+    const cache = await readCache(gitDir, EncryptionService.keyId(key));
+    const mapping = cache[direction];
+    const reverse = direction === 'encrypted' ? 'decrypted' : 'encrypted';
+
+    const entries = await listTree(workspaceRoot, treeSha);
+    // Submodule entries point at commits and are kept as they are
+    const pending = Array.from(new Set(entries.filter(e => e.type === 'blob' && !mapping[e.sha]).map(e => e.sha)));
+    const pathOf = new Map(entries.map(e => [e.sha, e.path]));
+
+    for (let i = 0; i < pending.length; i += READ_BATCH_SIZE) {
+      const contents = await readBlobs(workspaceRoot, pending.slice(i, i + READ_BATCH_SIZE));
+      for (const [sha, content] of contents) {
+        const transformed = transform(sha, content, pathOf.get(sha) || sha);
+        const newSha = await writeBlob(workspaceRoot, transformed);
+        mapping[sha] = newSha;
+        // The reverse mapping holds as well, so a later decrypt/encrypt needs no work
+        cache[reverse][newSha] = sha;
+      }
+    }
+    if (pending.length > 0) {
+      const treeBlobs = entries.filter(e => e.type === 'blob').map(e => e.sha);
+      cache[direction] = pruneMapping(mapping, treeBlobs);
+      cache[reverse] = pruneMapping(cache[reverse], treeBlobs.map(sha => mapping[sha]));
+      await writeCache(gitDir, EncryptionService.keyId(key), cache);
+    }
+
+    return writeTree(workspaceRoot, entries.map(e => e.type === 'blob' ? { ...e, sha: mapping[e.sha] } : e));
+  }
+}
+
+function deriveKey(key: Buffer, purpose: string): Buffer {
+  return crypto.createHmac('sha256', key).update(`version0-${purpose}`).digest();
+}
+
+async function readCache(gitDir: string, keyId: string): Promise<IKeyCache> {
+  try {
+    const all = JSON.parse(await fs.readFile(path.join(gitDir, CACHE_FILE_NAME), 'utf8'));
+    if (all[keyId]) {
+      return { encrypted: all[keyId].encrypted || {}, decrypted: all[keyId].decrypted || {} };
+    }
+  } catch {
+    // No cache yet, or unreadable: start over
+  }
+  return { encrypted: {}, decrypted: {} };
+}
+
+// Only the stored key can use its mappings, so the cache of a replaced key is dropped
+async function writeCache(gitDir: string, keyId: string, cache: IKeyCache): Promise<void> {
+  await fs.writeFile(path.join(gitDir, CACHE_FILE_NAME), JSON.stringify({ [keyId]: cache }));
+}
+
+// Cap a mapping at MAX_CACHED_BLOBS entries, keeping those of the current tree and then the
+// most recently added ones
+function pruneMapping(mapping: Record<string, string>, keep: string[]): Record<string, string> {
+  const shas = Object.keys(mapping);
+  if (shas.length <= MAX_CACHED_BLOBS) {
+    return mapping;
+  }
+  const kept = new Set(keep.filter(sha => mapping[sha]));
+  const older = shas.filter(sha => !kept.has(sha));
+  const pruned: Record<string, string> = {};
+  for (const sha of [...older.slice(Math.max(0, older.length - (MAX_CACHED_BLOBS - kept.size))), ...kept]) {
+    pruned[sha] = mapping[sha];
+  }
+  return pruned;
+}
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import simpleGit from 'simple-git';
+import { RiskyGitOperation } from '../types/interfaces';
+
+// The parts of the built-in git extension's API (vscode.git, version 1) used here
+interface IGitRepositoryState {
+  HEAD: { name?: string; commit?: string } | undefined;
+  rebaseCommit: unknown;
+  mergeChanges: unknown[];
+  indexChanges: unknown[];
+  workingTreeChanges: unknown[];
+  onDidChange: vscode.Event<void>;
+}
+
+interface IGitRepository {
+  rootUri: vscode.Uri;
+  state: IGitRepositoryState;
+}
+
+interface IGitAPI {
+  repositories: IGitRepository[];
+  onDidOpenRepository: vscode.Event<IGitRepository>;
+  onDidCloseRepository: vscode.Event<IGitRepository>;
+}
+
+// The git extension reports state on every save and status refresh; a dirty working tree
+// is only captured once it has stayed unchanged this long
+const CAPTURE_DELAY_MS = 3000;
+// A reflog entry this recent is taken to be the cause of a state change
+const RECENT_REFLOG_MS = 60 * 1000;
+
+/**
+ * State of a repository as last seen by the watcher, including a snapshot tree of the
+ * working tree at that moment.
+ */
+export interface IRepositorySnapshot {
+  branch: string | undefined;
+  headSha: string | undefined;
+  dirty: boolean;
+  rebasing: boolean;
+  merging: boolean;
+  treeSha: string | undefined;
+}
+
+/**
+ * Follows the built-in git extension's repository state for each workspace folder and
+ * reports risky operations (rebase, hard reset, discarded local changes, branch switch with
+ * a dirty tree, merging pull). The git extension only reports state after an operation has happened, so the
+ * watcher keeps a snapshot tree of the working tree and hands over the one taken before
+ * the operation. Clean trees are HEAD's tree; dirty ones are captured after a short delay.
+ */
+export class GitOperationWatcher implements vscode.Disposable {
+  private captureTree: (folder: vscode.WorkspaceFolder, dirty: boolean) => Promise<string | undefined>;
+  private onRiskyOperation: (folder: vscode.WorkspaceFolder, operation: RiskyGitOperation, before: IRepositorySnapshot) => void;
+  private isEnabledFor: (folder: vscode.WorkspaceFolder) => boolean;
+  private snapshots = new Map<string, IRepositorySnapshot>();
+  private queues = new Map<string, Promise<void>>();
+  private captureTimers = new Map<string, NodeJS.Timeout>();
+  private repositoryListeners = new Map<string, vscode.Disposable>();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    captureTree: (folder: vscode.WorkspaceFolder, dirty: boolean) => Promise<string | undefined>,
+    onRiskyOperation: (folder: vscode.WorkspaceFolder, operation: RiskyGitOperation, before: IRepositorySnapshot) => void,
+    isEnabledFor: (folder: vscode.WorkspaceFolder) => boolean
+  ) {
+    this.captureTree = captureTree;
+    this.onRiskyOperation = onRiskyOperation;
+    this.isEnabledFor = isEnabledFor;
+    this.initialize().catch(error => {
+      console.error('Version0: Could not watch the git extension for risky operations:', error);
+    });
+  }
+
+  private async initialize(): Promise<void> {
+    const gitExtension = vscode.extensions.getExtension('vscode.git');
+    if (!gitExtension) {
+      console.warn('Version0: The built-in git extension is not available; safety backups are disabled.');
+      return;
+    }
+    await gitExtension.activate();
+    const git: IGitAPI = gitExtension.exports.getAPI(1);
+
+    git.repositories.forEach(repository => this.watchRepository(repository));
+    this.disposables.push(
+      git.onDidOpenRepository(repository => this.watchRepository(repository)),
+      git.onDidCloseRepository(repository => {
+        const key = repository.rootUri.toString();
+        this.repositoryListeners.get(key)?.dispose();
+        this.repositoryListeners.delete(key);
+        this.cancelCapture(key);
+        this.snapshots.delete(key);
+      })
+    );
+  }
+
+  private watchRepository(repository: IGitRepository): void {
+    const key = repository.rootUri.toString();
+    if (this.repositoryListeners.has(key)) {
+      return;
+    }
+    this.repositoryListeners.set(key, repository.state.onDidChange(() => {
+      this.enqueue(key, () => this.handleStateChange(repository));
+    }));
+    this.queues.set(key, this.handleStateChange(repository).catch(() => undefined));
+  }
+
+  /**
+   * Run work for a repository one at a time, so each state change is compared with the
+   * one before and captures never overlap.
+   */
+  private enqueue(key: string, work: () => Promise<void>): void {
+    const previous = this.queues.get(key) || Promise.resolve();
+    this.queues.set(key, previous.then(work).catch(error => {
+      console.error(`Version0: Error handling git state change for ${key}:`, error);
+    }));
+  }
+
+  private async handleStateChange(repository: IGitRepository): Promise<void> {
+    const key = repository.rootUri.toString();
+    // Only repositories at the root of a workspace folder are backed up
+    const folder = vscode.workspace.getWorkspaceFolder(repository.rootUri);
+    if (!folder || folder.uri.toString() !== key || !this.isEnabledFor(folder)) {
+      this.cancelCapture(key);
+      this.snapshots.delete(key);
+      return;
+    }
+
+    const state = repository.state;
+    const current: IRepositorySnapshot = {
+      branch: state.HEAD?.name,
+      headSha: state.HEAD?.commit,
+      dirty: state.workingTreeChanges.length > 0 || state.indexChanges.length > 0,
+      rebasing: !!state.rebaseCommit,
+      merging: state.mergeChanges.length > 0,
+      treeSha: undefined
+    };
+
+    const previous = this.snapshots.get(key);
+    let operation: RiskyGitOperation | undefined;
+    if (previous?.treeSha) {
+      operation = await this.detectOperation(folder, previous, current);
+      if (operation) {
+        console.log(`Version0: Detected ${operation} in '${folder.name}', taking a safety backup of the previous state.`);
+        this.onRiskyOperation(folder, operation, previous);
+      }
+    }
+
+    this.cancelCapture(key);
+    if (!current.dirty || operation || !previous?.treeSha) {
+      current.treeSha = await this.captureTree(folder, current.dirty).catch(() => undefined);
+      this.snapshots.set(key, current);
+      return;
+    }
+    // Until the changes settle, the last capture stands for the working tree
+    current.treeSha = previous.treeSha;
+    this.snapshots.set(key, current);
+    this.captureTimers.set(key, setTimeout(() => {
+      this.captureTimers.delete(key);
+      this.enqueue(key, async () => {
+        const treeSha = await this.captureTree(folder, true).catch(() => undefined);
+        const latest = this.snapshots.get(key);
+        if (treeSha && latest) {
+          latest.treeSha = treeSha;
+        }
+      });
+    }, CAPTURE_DELAY_MS));
+  }
+
+  private cancelCapture(key: string): void {
+    const timer = this.captureTimers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this.captureTimers.delete(key);
+    }
+  }
+
+  private async detectOperation(
+    folder: vscode.WorkspaceFolder,
+    previous: IRepositorySnapshot,
+    current: IRepositorySnapshot
+  ): Promise<RiskyGitOperation | undefined> {
+    // Already in the middle of an operation that was backed up when it started
+    if (previous.rebasing || previous.merging) {
+      return undefined;
+    }
+    if (current.rebasing) {
+      return 'rebase';
+    }
+    if (current.merging) {
+      return 'merge';
+    }
+    if (previous.headSha === current.headSha && previous.branch === current.branch) {
+      if (!previous.dirty || current.dirty) {
+        return undefined;
+      }
+      // Local changes vanished without HEAD moving. A stash keeps them; `git stash` also
+      // logs a reset, so it is checked first.
+      if (await this.hasRecentReflogEntry(folder, 'refs/stash')) {
+        return undefined;
+      }
+      return await this.hasRecentReflogEntry(folder, 'HEAD', 'reset:') ? 'reset' : 'discard';
+    }
+
+    // HEAD moved: the reflog says which command moved it
+    const reflog = (await simpleGit(folder.uri.fsPath).raw(['reflog', '-1', '--format=%gs']).catch(() => '')).trim();
+    if (/rebase/.test(reflog)) {
+      return 'rebase';
+    }
+    if (reflog.startsWith('reset:')) {
+      return 'reset';
+    }
+    if (reflog.startsWith('checkout:')) {
+      return previous.dirty ? 'checkout' : undefined;
+    }
+    if ((reflog.startsWith('pull') || reflog.startsWith('merge')) && !/fast-forward/i.test(reflog)) {
+      return 'merge';
+    }
+    return undefined;
+  }
+
+  // True when the newest reflog entry of `ref` was just written, and starts with `prefix`
+  private async hasRecentReflogEntry(folder: vscode.WorkspaceFolder, ref: string, prefix = ''): Promise<boolean> {
+    const entry = (await simpleGit(folder.uri.fsPath).raw(['reflog', 'show', '-1', '--date=unix', '--format=%gd %gs', ref]).catch(() => '')).trim();
+    // '<ref>@{<unix time>} <message>'
+    const match = entry.match(/^\S+@\{(\d+)\} (.*)$/);
+    return !!match && Date.now() - parseInt(match[1], 10) * 1000 < RECENT_REFLOG_MS && match[2].startsWith(prefix);
+  }
+
+  public dispose(): void {
+    this.repositoryListeners.forEach(listener => listener.dispose());
+    this.repositoryListeners.clear();
+    this.captureTimers.forEach(timer => clearTimeout(timer));
+    this.captureTimers.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.snapshots.clear();
+  }
+}
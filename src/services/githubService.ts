@@ -1,20 +1,101 @@
 import * as vscode from 'vscode';
 import { Octokit } from '@octokit/rest';
 import { ConfigManager } from './configManager';
-import { IGitHubPullRequest, IGitHubIssue, IGitHubLabel } from '../types/interfaces';
+import { IBackupInfo, IGitHubPullRequest, IGitHubIssue, IGitHubLabel, IIssueFilter } from '../types/interfaces';
+import { IRepoUrl, isRepoOnHost, parseRepoUrl, toWebUrl } from '../utils/repoUrl';
+import { backupInfoFromCommit } from '../utils/backupMetadata';
+import { errorMessage } from '../utils/errorHandler';
+
+// Branches with the head commit's message and diff size, 100 per page
+const BACKUP_REFS_QUERY = `
+  query($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      refs(refPrefix: "refs/heads/", first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          name
+          target {
+            ... on Commit { oid message committedDate changedFilesIfAvailable }
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface IBackupRefsQueryResult {
+  repository: {
+    refs: {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: {
+        name: string;
+        target: { oid?: string; message?: string; committedDate?: string; changedFilesIfAvailable?: number | null };
+      }[];
+    };
+  } | null;
+}
+
+// Open pull requests with their draft and mergeable state, which the REST list omits
+const PULL_REQUESTS_QUERY = `
+  query($owner: String!, $repo: String!) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(states: OPEN, first: 50, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        nodes {
+          number title body url createdAt updatedAt isDraft mergeable
+          headRefName baseRefName
+          author { login }
+        }
+      }
+    }
+  }
+`;
+
+interface IPullRequestsQueryResult {
+  repository: {
+    pullRequests: {
+      nodes: {
+        number: number;
+        title: string;
+        body: string;
+        url: string;
+        createdAt: string;
+        updatedAt: string;
+        isDraft: boolean;
+        mergeable: 'MERGEABLE' | 'CONFLICTING' | 'UNKNOWN';
+        headRefName: string;
+        baseRefName: string;
+        author: { login: string } | null;
+      }[];
+    };
+  } | null;
+}
 
 export class GithubService implements vscode.Disposable {
   private octokit: Octokit | undefined;
   private configManager: ConfigManager;
+  private configListener: vscode.Disposable;
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
     // Initialize Octokit if token exists
     this.initializeOctokit();
+    // Point the client at the new host when the GitHub (Enterprise) URLs change
+    this.configListener = vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('version0.github')) {
+        this.initializeOctokit();
+      }
+    });
   }
 
   dispose() {
-    // No status bar to dispose
+    this.configListener.dispose();
+  }
+
+  /**
+   * VS Code authentication provider for the configured host.
+   */
+  private get authProviderId(): string {
+    return this.configManager.isGitHubEnterprise() ? 'github-enterprise' : 'github';
   }
 
   /**
@@ -23,7 +104,7 @@ export class GithubService implements vscode.Disposable {
   private async initializeOctokit(): Promise<void> {
     const token = await this.configManager.getGitHubToken();
     if (token) {
-      this.octokit = new Octokit({ auth: token });
+      this.octokit = new Octokit({ auth: token, baseUrl: this.configManager.getGitHubApiUrl() });
     } else {
       this.octokit = undefined;
     }
@@ -51,7 +132,7 @@ export class GithubService implements vscode.Disposable {
   async isVSCodeAuthAvailable(): Promise<boolean> {
     try {
       // Try to get existing session without creating one
-      await vscode.authentication.getSession('github', ['repo'], { createIfNone: false });
+      await vscode.authentication.getSession(this.authProviderId, ['repo'], { createIfNone: false });
       return true;
     } catch (error) {
       // VS Code auth not available or no existing session
@@ -64,7 +145,7 @@ export class GithubService implements vscode.Disposable {
    */
   async authenticateWithVSCode(): Promise<boolean> {
     try {
-      const session = await vscode.authentication.getSession('github', ['repo'], { createIfNone: true });
+      const session = await vscode.authentication.getSession(this.authProviderId, ['repo'], { createIfNone: true });
       if (session) {
         await this.setToken(session.accessToken);
         return true;
@@ -111,45 +192,81 @@ export class GithubService implements vscode.Disposable {
     }
   }
 
-  // Utility to parse owner/repo from URL
-  private parseRepoUrl(url: string): { owner: string; repo: string } | null {
+  /**
+   * Check if a token is stored, without validating it against the API
+   */
+  async hasToken(): Promise<boolean> {
+    return !!await this.configManager.getGitHubToken();
+  }
+
+  // Owner/repo of a URL; only URLs on the configured GitHub host are accepted
+  private parseGitHubUrl(url: string): IRepoUrl | undefined {
+    let webHost: string;
     try {
-      if (url.startsWith('https:')) {
-        const urlObj = new URL(url);
-        if (urlObj.hostname !== 'github.com') return null;
-        const pathParts = urlObj.pathname.split('/').filter(Boolean);
-        if (pathParts.length < 2) return null;
-        const repoName = pathParts[1].endsWith('.git') ? pathParts[1].slice(0, -4) : pathParts[1];
-        return { owner: pathParts[0], repo: repoName };
-      } else if (url.startsWith('git@')) {
-        const parts = url.split(':');
-        if (parts.length !== 2) return null;
-        const hostPart = parts[0];
-        const pathPart = parts[1];
-        if (!hostPart.endsWith('@github.com')) return null;
-        const pathParts = pathPart.split('/').filter(Boolean);
-        if (pathParts.length < 2) return null;
-        const repoName = pathParts[1].endsWith('.git') ? pathParts[1].slice(0, -4) : pathParts[1];
-        return { owner: pathParts[0], repo: repoName };
-      } else if (url.includes('/') && url.split('/').length === 2 && !url.startsWith('http') && !url.startsWith('git@')) {
-        const parts = url.split('/');
-        return { owner: parts[0], repo: parts[1].endsWith('.git') ? parts[1].slice(0, -4) : parts[1] };
-      }
+      webHost = new URL(this.configManager.getGitHubWebUrl()).hostname;
     } catch (e) {
-      console.error(`Error parsing repo URL '${url}':`, e);
-      return null;
+      console.error(`Invalid GitHub web URL '${this.configManager.getGitHubWebUrl()}':`, e);
+      return undefined;
+    }
+    const repoInfo = parseRepoUrl(url);
+    return repoInfo && isRepoOnHost(repoInfo, webHost) ? repoInfo : undefined;
+  }
+
+  /**
+   * True when the URL points at a repository on the configured GitHub host.
+   */
+  public isGitHubRepoUrl(url: string): boolean {
+    return !!this.parseGitHubUrl(url);
+  }
+
+  /**
+   * Web URL of a branch in the repository, or undefined if the URL cannot be parsed.
+   */
+  public getBranchWebUrl(repoUrl: string, branchName: string): string | undefined {
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      return undefined;
+    }
+    return `${toWebUrl(repoInfo, this.configManager.getGitHubWebUrl())}/tree/${branchName}`;
+  }
+
+  /**
+   * Web URL comparing two branches of the repository.
+   */
+  public getCompareWebUrl(repoUrl: string, baseBranch: string, headBranch: string): string | undefined {
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      return undefined;
+    }
+    return `${toWebUrl(repoInfo, this.configManager.getGitHubWebUrl())}/compare/${baseBranch}...${headBranch}`;
+  }
+
+  /**
+   * Web URL that starts a pull request for a branch, or undefined if the URL cannot be parsed.
+   */
+  public getNewPullRequestWebUrl(repoUrl: string, branchName: string): string | undefined {
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      return undefined;
     }
-    return null;
+    return `${toWebUrl(repoInfo, this.configManager.getGitHubWebUrl())}/pull/new/${branchName}`;
   }
 
+  /**
+   * Names of all branches of the target repository. Throws when they cannot be listed, so
+   * callers never mistake a failed request for a repository without backups.
+   */
   async getBackupBranchesFromTargetUrl(targetRepoUrl: string): Promise<string[]> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+    }
     const octokit = this.octokit;
     if (!octokit) {
-      return [];
+      throw new Error('GitHub authentication required');
     }
-    const repoInfo = this.parseRepoUrl(targetRepoUrl);
+    const repoInfo = this.parseGitHubUrl(targetRepoUrl);
     if (!repoInfo) {
-      return [];
+      throw new Error('Invalid repository URL');
     }
     const { owner, repo } = repoInfo;
     try {
@@ -161,10 +278,82 @@ export class GithubService implements vscode.Disposable {
       });
       const branchNames = refs.map((ref: { ref: string }) => ref.ref.replace(/^refs\/heads\//, ''));
       return branchNames;
-    } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to list version branches for ${owner}/${repo}: ${error.message}`);
+    } catch (error: unknown) {
+      throw new Error(`Failed to list branches of ${owner}/${repo}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Backups in the repository, described by the metadata stored in their commits and
+   * sorted newest first. Reads branches and commits through the GraphQL API, so nothing
+   * has to be fetched. Branches that are not Version0 backups are skipped.
+   */
+  public async listBackups(repoUrl: string): Promise<IBackupInfo[]> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+      if (!this.octokit) {
+        return [];
+      }
+    }
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
       return [];
     }
+    const { owner, repo } = repoInfo;
+    try {
+      const backups: IBackupInfo[] = [];
+      let cursor: string | null = null;
+      do {
+        const result: IBackupRefsQueryResult = await this.octokit.graphql<IBackupRefsQueryResult>(BACKUP_REFS_QUERY, { owner, repo, cursor });
+        if (!result.repository) {
+          break;
+        }
+        for (const node of result.repository.refs.nodes) {
+          const commit = node.target;
+          if (!commit.oid || commit.message === undefined) {
+            continue;
+          }
+          const backup = backupInfoFromCommit(node.name, commit.oid, commit.committedDate || '', commit.message, commit.changedFilesIfAvailable ?? 0);
+          if (backup) {
+            backups.push(backup);
+          }
+        }
+        const pageInfo = result.repository.refs.pageInfo;
+        cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+      } while (cursor);
+      return backups.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    } catch (error: unknown) {
+      console.error(`Failed to list backups for ${owner}/${repo}:`, error);
+      throw new Error(`Failed to list backups for ${owner}/${repo}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Delete a branch from the repository by removing its ref.
+   */
+  public async deleteBranch(repoUrl: string, branchName: string): Promise<void> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+      if (!this.octokit) {
+        throw new Error('GitHub authentication required');
+      }
+    }
+
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      throw new Error('Invalid repository URL');
+    }
+
+    const { owner, repo } = repoInfo;
+    try {
+      await this.octokit.git.deleteRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`
+      });
+    } catch (error: unknown) {
+      throw new Error(`Failed to delete branch '${branchName}': ${errorMessage(error)}`);
+    }
   }
 
   public async createPrivateRepository(name: string): Promise<{url?: string, error?: string}> {
@@ -181,8 +370,8 @@ export class GithubService implements vscode.Disposable {
         auto_init: true
       });
       return { url: response.data.html_url };
-    } catch (error: any) {
-      return { error: `Failed to create repository: ${error.message}` };
+    } catch (error: unknown) {
+      return { error: `Failed to create repository: ${errorMessage(error)}` };
     }
   }
 
@@ -193,7 +382,7 @@ export class GithubService implements vscode.Disposable {
         return { status: 'error', message: 'GitHub authentication required. Please set your token first.' };
       }
     }
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       return { status: 'error', message: `Invalid Target Repo URL format: ${repoUrl}` };
     }
@@ -201,17 +390,22 @@ export class GithubService implements vscode.Disposable {
     try {
       await this.octokit.repos.get({ owner, repo });
       return { status: 'success', message: 'Repository accessible.' };
-    } catch (error: any) {
-      if (error.status === 404) {
+    } catch (error: unknown) {
+      const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+      if (status === 404) {
         return { status: 'error', message: `Repository not found: ${owner}/${repo}` };
-      } else if (error.status === 403 || error.status === 401) {
+      } else if (status === 403 || status === 401) {
         return { status: 'error', message: `Access denied to repository: ${owner}/${repo}. Check token permissions.` };
       }
-      return { status: 'error', message: `Failed to access repository ${owner}/${repo}: ${error.message}` };
+      return { status: 'error', message: `Failed to access repository ${owner}/${repo}: ${errorMessage(error)}` };
     }
   }
 
   // Pull Request Management
+  /**
+   * Open pull requests, most recently updated first. `mergeable` is null while GitHub is
+   * still computing it.
+   */
   public async getPullRequests(repoUrl: string): Promise<IGitHubPullRequest[]> {
     if (!this.octokit) {
       await this.initializeOctokit();
@@ -220,39 +414,55 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       return [];
     }
 
     const { owner, repo } = repoInfo;
     try {
-      const response = await this.octokit.pulls.list({
-        owner,
-        repo,
-        state: 'open',
-        sort: 'updated',
-        direction: 'desc',
-        per_page: 50
-      });
-
-      return response.data.map(pr => ({
+      const result = await this.octokit.graphql<IPullRequestsQueryResult>(PULL_REQUESTS_QUERY, { owner, repo });
+      return (result.repository?.pullRequests.nodes || []).map(pr => ({
         number: pr.number,
         title: pr.title,
         body: pr.body || '',
-        state: pr.state as 'open' | 'closed' | 'merged',
-        author: pr.user?.login || 'unknown',
-        createdAt: pr.created_at,
-        updatedAt: pr.updated_at,
-        headBranch: pr.head.ref,
-        baseBranch: pr.base.ref,
-        url: pr.html_url,
-        mergeable: (pr as any).mergeable || false,
-        draft: pr.draft || false
+        state: 'open',
+        author: pr.author?.login || 'unknown',
+        createdAt: pr.createdAt,
+        updatedAt: pr.updatedAt,
+        headBranch: pr.headRefName,
+        baseBranch: pr.baseRefName,
+        url: pr.url,
+        mergeable: pr.mergeable === 'UNKNOWN' ? null : pr.mergeable === 'MERGEABLE',
+        draft: pr.isDraft
       }));
-    } catch (error: any) {
-      console.error(`Failed to fetch pull requests for ${owner}/${repo}:`, error);
-      return [];
+    } catch (error: unknown) {
+      throw new Error(`Failed to fetch pull requests for ${owner}/${repo}: ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Name of the repository's default branch.
+   */
+  public async getDefaultBranch(repoUrl: string): Promise<string> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+      if (!this.octokit) {
+        throw new Error('GitHub authentication required');
+      }
+    }
+
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      throw new Error('Invalid repository URL');
+    }
+
+    const { owner, repo } = repoInfo;
+    try {
+      const response = await this.octokit.repos.get({ owner, repo });
+      return response.data.default_branch;
+    } catch (error: unknown) {
+      throw new Error(`Failed to read default branch of ${owner}/${repo}: ${errorMessage(error)}`);
     }
   }
 
@@ -270,7 +480,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       throw new Error('Invalid repository URL');
     }
@@ -300,8 +510,8 @@ export class GithubService implements vscode.Disposable {
         mergeable: (response.data as any).mergeable || false,
         draft: response.data.draft || false
       };
-    } catch (error: any) {
-      throw new Error(`Failed to create pull request: ${error.message}`);
+    } catch (error: unknown) {
+      throw new Error(`Failed to create pull request: ${errorMessage(error)}`);
     }
   }
 
@@ -313,7 +523,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       throw new Error('Invalid repository URL');
     }
@@ -327,13 +537,17 @@ export class GithubService implements vscode.Disposable {
         merge_method: mergeMethod
       });
       return true;
-    } catch (error: any) {
-      throw new Error(`Failed to merge pull request: ${error.message}`);
+    } catch (error: unknown) {
+      throw new Error(`Failed to merge pull request: ${errorMessage(error)}`);
     }
   }
 
   // Issue Management
-  public async getIssues(repoUrl: string): Promise<IGitHubIssue[]> {
+  /**
+   * Open issues, most recently updated first, optionally narrowed to a label, an assignee
+   * ('none' for unassigned issues) and an author.
+   */
+  public async getIssues(repoUrl: string, filter: IIssueFilter = {}): Promise<IGitHubIssue[]> {
     if (!this.octokit) {
       await this.initializeOctokit();
       if (!this.octokit) {
@@ -341,7 +555,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       return [];
     }
@@ -355,7 +569,10 @@ export class GithubService implements vscode.Disposable {
         sort: 'updated',
         direction: 'desc',
         per_page: 50,
-        filter: 'all'
+        filter: 'all',
+        labels: filter.label || undefined,
+        assignee: filter.assignee || undefined,
+        creator: filter.author || undefined
       });
 
       return response.data
@@ -376,9 +593,8 @@ export class GithubService implements vscode.Disposable {
           updatedAt: issue.updated_at,
           url: issue.html_url
         }));
-    } catch (error: any) {
-      console.error(`Failed to fetch issues for ${owner}/${repo}:`, error);
-      return [];
+    } catch (error: unknown) {
+      throw new Error(`Failed to fetch issues for ${owner}/${repo}: ${errorMessage(error)}`);
     }
   }
 
@@ -396,7 +612,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       throw new Error('Invalid repository URL');
     }
@@ -428,8 +644,8 @@ export class GithubService implements vscode.Disposable {
         updatedAt: response.data.updated_at,
         url: response.data.html_url
       };
-    } catch (error: any) {
-      throw new Error(`Failed to create issue: ${error.message}`);
+    } catch (error: unknown) {
+      throw new Error(`Failed to create issue: ${errorMessage(error)}`);
     }
   }
 
@@ -441,7 +657,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       throw new Error('Invalid repository URL');
     }
@@ -455,8 +671,40 @@ export class GithubService implements vscode.Disposable {
         state: 'closed'
       });
       return true;
-    } catch (error: any) {
-      throw new Error(`Failed to close issue: ${error.message}`);
+    } catch (error: unknown) {
+      throw new Error(`Failed to close issue: ${errorMessage(error)}`);
+    }
+  }
+
+  // Releases
+  /**
+   * Publish a release for an existing tag and return its web URL.
+   */
+  public async createRelease(repoUrl: string, tagName: string, name: string, body: string): Promise<string> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+      if (!this.octokit) {
+        throw new Error('GitHub authentication required');
+      }
+    }
+
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      throw new Error('Invalid repository URL');
+    }
+
+    const { owner, repo } = repoInfo;
+    try {
+      const response = await this.octokit.repos.createRelease({
+        owner,
+        repo,
+        tag_name: tagName,
+        name,
+        body
+      });
+      return response.data.html_url;
+    } catch (error: unknown) {
+      throw new Error(`Failed to create release: ${errorMessage(error)}`);
     }
   }
 
@@ -490,7 +738,7 @@ export class GithubService implements vscode.Disposable {
         return null;
       }
 
-      const repoInfo = this.parseRepoUrl(origin.fetchUrl);
+      const repoInfo = this.parseGitHubUrl(origin.fetchUrl);
       if (!repoInfo) {
         return null;
       }
@@ -506,6 +754,36 @@ export class GithubService implements vscode.Disposable {
     }
   }
 
+  /**
+   * Logins of the users issues in the repository can be assigned to.
+   */
+  public async getAssignableUsers(repoUrl: string): Promise<string[]> {
+    if (!this.octokit) {
+      await this.initializeOctokit();
+      if (!this.octokit) {
+        return [];
+      }
+    }
+
+    const repoInfo = this.parseGitHubUrl(repoUrl);
+    if (!repoInfo) {
+      return [];
+    }
+
+    const { owner, repo } = repoInfo;
+    try {
+      const response = await this.octokit.issues.listAssignees({
+        owner,
+        repo,
+        per_page: 100
+      });
+      return response.data.map(user => user.login);
+    } catch (error: unknown) {
+      console.error(`Failed to fetch assignees for ${owner}/${repo}:`, error);
+      return [];
+    }
+  }
+
   public async getRepositoryLabels(repoUrl: string): Promise<IGitHubLabel[]> {
     if (!this.octokit) {
       await this.initializeOctokit();
@@ -514,7 +792,7 @@ export class GithubService implements vscode.Disposable {
       }
     }
 
-    const repoInfo = this.parseRepoUrl(repoUrl);
+    const repoInfo = this.parseGitHubUrl(repoUrl);
     if (!repoInfo) {
       return [];
     }
@@ -532,7 +810,7 @@ export class GithubService implements vscode.Disposable {
         color: label.color,
         description: label.description || ''
       }));
-    } catch (error: any) {
+    } catch (error: unknown) {
       console.error(`Failed to fetch labels for ${owner}/${repo}:`, error);
       return [];
     }
@@ -0,0 +1,83 @@
+import moment from 'moment';
+import { IRetentionPolicy } from '../types/interfaces';
+import { BackupBranchNaming, IParsedBackupBranch, compareVersions } from '../utils/backupBranch';
+
+export interface IRetentionPlan {
+  keep: string[];
+  prune: string[];
+}
+
+/**
+ * Decides which Version0 backup branches to keep. A backup survives if any rule
+ * keeps it: the last N, everything younger than X days, or one backup per
+ * hour/day/week/month (grandfather-father-son) up to the configured counts.
+ * Branches that `naming` does not recognize as backups are never considered.
+ */
+export class RetentionPolicy {
+  private policy: IRetentionPolicy;
+  private naming: BackupBranchNaming;
+
+  constructor(policy: IRetentionPolicy, naming: BackupBranchNaming) {
+    this.policy = policy;
+    this.naming = naming;
+  }
+
+  /**
+   * True when at least one rule is set; without rules nothing is pruned.
+   */
+  public hasRules(): boolean {
+    const p = this.policy;
+    return p.keepLast > 0 || p.keepWithinDays > 0 || p.keepHourly > 0 ||
+      p.keepDaily > 0 || p.keepWeekly > 0 || p.keepMonthly > 0;
+  }
+
+  public plan(branchNames: string[], now: Date = new Date()): IRetentionPlan {
+    const backups = branchNames
+      .map(name => this.naming.parse(name))
+      .filter((b): b is IParsedBackupBranch => !!b)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || compareVersions(b.version, a.version));
+
+    if (!this.hasRules()) {
+      return { keep: backups.map(b => b.name), prune: [] };
+    }
+
+    const keep = new Set<string>();
+
+    // The newest backup is always kept, whatever the rules say
+    backups.slice(0, Math.max(1, this.policy.keepLast)).forEach(b => keep.add(b.name));
+
+    if (this.policy.keepWithinDays > 0) {
+      const cutoff = moment(now).subtract(this.policy.keepWithinDays, 'days');
+      backups.filter(b => moment(b.timestamp).isAfter(cutoff)).forEach(b => keep.add(b.name));
+    }
+
+    this.keepOnePerBucket(backups, this.policy.keepHourly, 'YYYY-MM-DD HH', keep);
+    this.keepOnePerBucket(backups, this.policy.keepDaily, 'YYYY-MM-DD', keep);
+    this.keepOnePerBucket(backups, this.policy.keepWeekly, 'GGGG-WW', keep);
+    this.keepOnePerBucket(backups, this.policy.keepMonthly, 'YYYY-MM', keep);
+
+    return {
+      keep: backups.filter(b => keep.has(b.name)).map(b => b.name),
+      prune: backups.filter(b => !keep.has(b.name)).map(b => b.name)
+    };
+  }
+
+  // Keep the newest backup of each of the `count` most recent periods
+  private keepOnePerBucket(backups: IParsedBackupBranch[], count: number, bucketFormat: string, keep: Set<string>): void {
+    if (count <= 0) {
+      return;
+    }
+    const seenBuckets = new Set<string>();
+    for (const backup of backups) {
+      const bucket = moment(backup.timestamp).format(bucketFormat);
+      if (seenBuckets.has(bucket)) {
+        continue;
+      }
+      seenBuckets.add(bucket);
+      keep.add(backup.name);
+      if (seenBuckets.size >= count) {
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { ISecretFinding } from '../types/interfaces';
+import { ISecretMatch, redactContent, scanFileContent, scanFileName } from '../utils/secretPatterns';
+import { isBinaryContent, listTree, readBlobs, readObjectSizes, writeBlob, writeTree } from '../utils/gitObjects';
+
+// Larger files and binary files are only checked by name
+const MAX_SCANNED_FILE_SIZE = 1024 * 1024;
+const READ_BATCH_SIZE = 200;
+
+/**
+ * Checks snapshot trees for secrets before they are pushed. Only files that differ from
+ * a base tree are scanned; callers pass the newest published commit the snapshot builds
+ * on, since its history is already on a remote.
+ */
+export class SecretScanner {
+  private configManager: ConfigManager;
+
+  constructor(configManager: ConfigManager) {
+    this.configManager = configManager;
+  }
+
+  /**
+   * Findings in the files of `treeSha` that differ from `baseTree`, without those on the
+   * folder's allow-list.
+   */
+  public async scan(folder: vscode.WorkspaceFolder, baseTree: string, treeSha: string): Promise<ISecretFinding[]> {
+    const allowlist = new Set(this.configManager.getSecretAllowlist(folder.uri));
+    const matches = await this.findSecrets(folder.uri.fsPath, baseTree, treeSha);
+    return matches.filter(m => !allowlist.has(m.fingerprint)).map((m): ISecretFinding => ({
+      path: m.path,
+      line: m.line,
+      rule: m.rule,
+      description: m.description,
+      preview: m.preview,
+      fingerprint: m.fingerprint
+    }));
+  }
+
+  /**
+   * Write a copy of `treeSha` with the given findings removed: secrets are replaced by
+   * placeholders and files flagged by name are left out. Returns the new tree.
+   */
+  public async redact(folder: vscode.WorkspaceFolder, baseTree: string, treeSha: string, findings: ISecretFinding[]): Promise<string> {
+    const workspaceRoot = folder.uri.fsPath;
+    const selected = new Set(findings.map(f => f.fingerprint));
+    const matches = (await this.findSecrets(workspaceRoot, baseTree, treeSha)).filter(m => selected.has(m.fingerprint));
+    const droppedPaths = new Set(matches.filter(m => m.line === undefined).map(m => m.path));
+
+    const entries = await listTree(workspaceRoot, treeSha);
+    const blobByPath = new Map(entries.map(e => [e.path, e.sha]));
+    const contentMatches = new Map<string, ISecretMatch[]>();
+    for (const match of matches) {
+      if (match.line !== undefined && !droppedPaths.has(match.path)) {
+        contentMatches.set(match.path, [...contentMatches.get(match.path) || [], match]);
+      }
+    }
+
+    const redactedBlobs = new Map<string, string>();
+    const contents = await readBlobs(workspaceRoot, Array.from(contentMatches.keys())
+      .map(p => blobByPath.get(p))
+      .filter((sha): sha is string => !!sha));
+    for (const [filePath, fileMatches] of contentMatches) {
+      const blobSha = blobByPath.get(filePath);
+      const content = blobSha ? contents.get(blobSha) : undefined;
+      // Never push a file whose secrets could not be replaced
+      if (!content) {
+        throw new Error(`Could not read '${filePath}' to redact it`);
+      }
+      const text = content.toString('utf8');
+      redactedBlobs.set(filePath, await writeBlob(workspaceRoot, Buffer.from(redactContent(text, fileMatches), 'utf8')));
+    }
+
+    return writeTree(workspaceRoot, entries
+      .filter(e => !droppedPaths.has(e.path))
+      .map(e => ({ ...e, sha: redactedBlobs.get(e.path) ?? e.sha })));
+  }
+
+  /**
+   * Accept findings so later scans no longer report them.
+   */
+  public async allow(folder: vscode.WorkspaceFolder, findings: ISecretFinding[]): Promise<void> {
+    const allowlist = new Set(this.configManager.getSecretAllowlist(folder.uri));
+    findings.forEach(f => allowlist.add(f.fingerprint));
+    await this.configManager.setSecretAllowlist(folder.uri, Array.from(allowlist));
+  }
+
+  private async findSecrets(workspaceRoot: string, baseTree: string, treeSha: string): Promise<ISecretMatch[]> {
+    const baseBlobs = new Map((await listTree(workspaceRoot, baseTree)).map(e => [e.path, e.sha]));
+    const changed = (await listTree(workspaceRoot, treeSha)).filter(e => e.type === 'blob' && baseBlobs.get(e.path) !== e.sha);
+
+    const matches: ISecretMatch[] = [];
+    for (const entry of changed) {
+      const finding = scanFileName(entry.path);
+      if (finding) {
+        // Name findings have no position in the content
+        matches.push({ ...finding, start: 0, end: 0 });
+      }
+    }
+
+    // Size first, so large files are never read into memory
+    const sizes = await readObjectSizes(workspaceRoot, Array.from(new Set(changed.map(e => e.sha))));
+    const scanned = changed.filter(e => (sizes.get(e.sha) ?? 0) <= MAX_SCANNED_FILE_SIZE);
+    for (let i = 0; i < scanned.length; i += READ_BATCH_SIZE) {
+      const batch = scanned.slice(i, i + READ_BATCH_SIZE);
+      const contents = await readBlobs(workspaceRoot, Array.from(new Set(batch.map(e => e.sha))));
+      for (const entry of batch) {
+        const content = contents.get(entry.sha);
+        if (!content) {
+          throw new Error(`Could not read '${entry.path}'`);
+        }
+        if (isBinaryContent(content)) {
+          continue;
+        }
+        matches.push(...scanFileContent(entry.path, content.toString('utf8')));
+      }
+    }
+    return matches;
+  }
+}
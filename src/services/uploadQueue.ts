@@ -0,0 +1,201 @@
+import * as vscode from 'vscode';
+import { ConfigManager } from './configManager';
+import { IPendingUpload } from '../types/interfaces';
+import { isTargetReachable } from '../utils/connectivity';
+import { errorMessage } from '../utils/errorHandler';
+
+// Retry delays double with every failed attempt, between these bounds
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const CONNECTIVITY_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Outcome of an upload attempt that did not throw: the backup was pushed, or it can never
+ * be pushed (its local snapshot is gone) and is dropped from the queue.
+ */
+export type UploadOutcome = 'uploaded' | 'discarded';
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+function isSameUpload(a: IPendingUpload, b: IPendingUpload): boolean {
+  return a.folderUri === b.folderUri && a.branchName === b.branchName;
+}
+
+/**
+ * Persisted queue of backups whose push failed. Pending uploads are retried with
+ * exponential backoff, and immediately when a target that could not be reached becomes
+ * reachable again. Uploads of folders that are not open in this window stay queued
+ * until a window that has them open picks them up.
+ */
+export class UploadQueue implements vscode.Disposable {
+  private configManager: ConfigManager;
+  private upload: (pending: IPendingUpload) => Promise<UploadOutcome>;
+  private canUpload: (pending: IPendingUpload) => boolean;
+  private retryTimer: NodeJS.Timeout | undefined;
+  private connectivityTimer: NodeJS.Timeout | undefined;
+  // Target URLs that could not be reached at the last connectivity check
+  private unreachableTargets = new Set<string>();
+  // Uploads run one at a time so queue updates never interleave
+  private processing: Promise<unknown> = Promise.resolve();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    configManager: ConfigManager,
+    upload: (pending: IPendingUpload) => Promise<UploadOutcome>,
+    canUpload: (pending: IPendingUpload) => boolean
+  ) {
+    this.configManager = configManager;
+    this.upload = upload;
+    this.canUpload = canUpload;
+  }
+
+  /**
+   * Pending uploads, optionally only those of one workspace folder.
+   */
+  public getPending(folderUri?: string): IPendingUpload[] {
+    const pending = this.configManager.getPendingUploads();
+    return folderUri ? pending.filter(p => p.folderUri === folderUri) : pending;
+  }
+
+  /**
+   * Queue a backup whose push just failed with `error`.
+   */
+  public async enqueue(upload: Pick<IPendingUpload, 'folderUri' | 'branchName' | 'targetRepoUrl' | 'treeSha'>, error: string): Promise<void> {
+    const now = Date.now();
+    const pending: IPendingUpload = {
+      ...upload,
+      queuedAt: new Date(now).toISOString(),
+      attempts: 1,
+      nextAttemptAt: new Date(now + retryDelay(1)).toISOString(),
+      lastError: error
+    };
+    const queue = this.getPending().filter(p => !isSameUpload(p, pending));
+    queue.push(pending);
+    await this.configManager.setPendingUploads(queue);
+    console.log(`Version0: Queued backup '${pending.branchName}' for upload (${error}).`);
+    this.refresh();
+  }
+
+  /**
+   * Upload pending backups now, regardless of their backoff.
+   */
+  public flush(folderUri?: string): Promise<{ uploaded: number; remaining: number }> {
+    return this.runExclusive(() => this.process(p => !folderUri || p.folderUri === folderUri));
+  }
+
+  /**
+   * Re-plan the retries, e.g. after a workspace folder became available.
+   */
+  public refresh(): void {
+    this.schedule();
+    this._onDidChange.fire();
+  }
+
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.processing.then(task);
+    this.processing = result.catch(() => undefined);
+    return result;
+  }
+
+  private async process(filter: (pending: IPendingUpload) => boolean): Promise<{ uploaded: number; remaining: number }> {
+    let uploaded = 0;
+    for (const pending of this.getPending().filter(p => this.canUpload(p) && filter(p))) {
+      let outcome: UploadOutcome | undefined;
+      let error: string | undefined;
+      try {
+        outcome = await this.upload(pending);
+      } catch (uploadError: unknown) {
+        error = errorMessage(uploadError);
+      }
+
+      // Re-read the queue: backups may have been queued while the upload ran
+      const queue = this.getPending();
+      const index = queue.findIndex(p => isSameUpload(p, pending));
+      if (index === -1) {
+        continue;
+      }
+      if (outcome) {
+        queue.splice(index, 1);
+        if (outcome === 'uploaded') {
+          uploaded++;
+          console.log(`Version0: Uploaded queued backup '${pending.branchName}'.`);
+        } else {
+          console.warn(`Version0: Dropped queued backup '${pending.branchName}': its local snapshot no longer exists.`);
+        }
+      } else {
+        const attempts = pending.attempts + 1;
+        queue[index] = {
+          ...queue[index],
+          attempts,
+          nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+          lastError: error
+        };
+        console.warn(`Version0: Upload of queued backup '${pending.branchName}' failed (attempt ${attempts}): ${error}`);
+      }
+      await this.configManager.setPendingUploads(queue);
+    }
+
+    this.refresh();
+    const remaining = this.getPending().filter(p => this.canUpload(p) && filter(p)).length;
+    return { uploaded, remaining };
+  }
+
+  private schedule(): void {
+    this.clearTimers();
+    const pending = this.getPending().filter(p => this.canUpload(p));
+    if (pending.length === 0) {
+      this.unreachableTargets.clear();
+      return;
+    }
+
+    const nextAttempt = Math.min(...pending.map(p => Date.parse(p.nextAttemptAt) || 0));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.runExclusive(() => this.process(p => Date.parse(p.nextAttemptAt) <= Date.now())).catch(error => {
+        console.error('Version0: Error uploading queued backups:', error);
+      });
+    }, Math.max(0, nextAttempt - Date.now()));
+
+    this.connectivityTimer = setInterval(() => {
+      this.checkConnectivity().catch(error => {
+        console.error('Version0: Error checking connectivity for queued backups:', error);
+      });
+    }, CONNECTIVITY_CHECK_INTERVAL_MS);
+  }
+
+  // Upload right away once a target that was unreachable can be reached again
+  private async checkConnectivity(): Promise<void> {
+    const targets = new Set(this.getPending().filter(p => this.canUpload(p)).map(p => p.targetRepoUrl));
+    const restored: string[] = [];
+    for (const url of targets) {
+      if (!await isTargetReachable(url)) {
+        this.unreachableTargets.add(url);
+      } else if (this.unreachableTargets.delete(url)) {
+        restored.push(url);
+      }
+    }
+    if (restored.length > 0) {
+      console.log(`Version0: ${restored.join(', ')} reachable again, uploading queued backups.`);
+      await this.runExclusive(() => this.process(p => restored.includes(p.targetRepoUrl)));
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+    if (this.connectivityTimer) {
+      clearInterval(this.connectivityTimer);
+      this.connectivityTimer = undefined;
+    }
+  }
+
+  public dispose(): void {
+    this.clearTimers();
+    this._onDidChange.dispose();
+  }
+}
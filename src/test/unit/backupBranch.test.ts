@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { VersionScheme } from '../../types/interfaces';
+import { BackupBranchNaming, compareVersions, parseBackupBranchName } from '../../utils/backupBranch';
+
+const date = new Date(2026, 9, 19, 14, 5, 9);
+
+function naming(template: string, versionScheme: VersionScheme = 'majorMinor'): BackupBranchNaming {
+	return new BackupBranchNaming({ template, versionScheme });
+}
+
+suite('BackupBranchNaming', () => {
+	test('formats the default template', () => {
+		assert.strictEqual(naming('v{version}/{date}').format({ version: '1.2', date }), 'v1.2/2026-10-19_14-05-09');
+	});
+
+	test('round-trips names in each version scheme', () => {
+		const versions: Record<VersionScheme, string> = { majorMinor: '3.14', date: '2026.10.19.2', counter: '42' };
+		for (const scheme of Object.keys(versions) as VersionScheme[]) {
+			for (const template of ['v{version}/{date}', 'backups/{user}/{branch}/{date}-v{version}', '{host}-{version}-{date}']) {
+				const branchNaming = naming(template, scheme);
+				const name = branchNaming.format({ version: versions[scheme], date, branch: 'feature/login', user: 'sam', host: 'laptop' });
+				const parsed = branchNaming.parse(name);
+				assert.ok(parsed, `${scheme} ${name}`);
+				assert.strictEqual(parsed.name, name);
+				assert.strictEqual(parsed.version, versions[scheme], name);
+				assert.strictEqual(parsed.timestamp.getTime(), date.getTime(), name);
+			}
+		}
+	});
+
+	test('makes placeholder values safe for ref names', () => {
+		const name = naming('backups/{user}/{branch}/{date}-v{version}').format({
+			version: '1.0',
+			date,
+			branch: 'my feature/../x.lock',
+			user: 'Sam Smith/admin'
+		});
+		assert.strictEqual(name, 'backups/Sam-Smith-admin/my-feature/x/2026-10-19_14-05-09-v1.0');
+		assert.strictEqual(naming('{branch}/{version}/{date}').format({ version: '1.0', date }), 'detached/1.0/2026-10-19_14-05-09');
+	});
+
+	test('parses names with a collision suffix', () => {
+		const parsed = naming('v{version}/{date}').parse('v1.2/2026-10-19_14-05-09-123');
+		assert.strictEqual(parsed?.version, '1.2');
+		assert.strictEqual(parsed?.timestamp.getTime(), date.getTime());
+	});
+
+	test('only parses versions of its own scheme', () => {
+		const counter = naming('backup-{version}-{date}', 'counter');
+		assert.strictEqual(counter.parse('backup-7-2026-10-19_14-05-09')?.version, '7');
+		assert.strictEqual(counter.parse('backup-1.0-2026-10-19_14-05-09'), undefined);
+		assert.strictEqual(counter.parse('main'), undefined);
+		assert.strictEqual(counter.parse('backup-7-2026-13-45_14-05-09'), undefined);
+	});
+
+	test('still recognizes branches in the original naming scheme', () => {
+		const parsed = naming('backups/{date}/{version}', 'counter').parse('v1.3/2026-10-19_14-05-09');
+		assert.strictEqual(parsed?.version, '1.3');
+		assert.deepStrictEqual(parseBackupBranchName('v1.3/2026-10-19_14-05-09-7')?.timestamp, date);
+		assert.strictEqual(parseBackupBranchName('v1/2026-10-19_14-05-09'), undefined);
+	});
+
+	test('rejects unusable templates', () => {
+		assert.strictEqual(BackupBranchNaming.validateTemplate('v{version}/{date}'), undefined);
+		assert.match(BackupBranchNaming.validateTemplate('v{version}') || '', /\{date\}/);
+		assert.match(BackupBranchNaming.validateTemplate('{date}') || '', /\{version\}/);
+		assert.match(BackupBranchNaming.validateTemplate('{version}/{date}/{commit}') || '', /unknown placeholder/);
+		assert.match(BackupBranchNaming.validateTemplate('{version}/{date}/{version}') || '', /only be used once/);
+		assert.match(BackupBranchNaming.validateTemplate('{version}..{date}') || '', /not a valid branch name/);
+		assert.throws(() => naming('backup {version} {date}'), /Invalid backup branch template/);
+	});
+});
+
+suite('next version', () => {
+	test('majorMinor bumps the minor of the highest version', () => {
+		const branchNaming = naming('v{version}/{date}');
+		assert.strictEqual(branchNaming.nextVersion([]), '1.0');
+		assert.strictEqual(branchNaming.nextVersion(['1.2', '1.9', '1.10']), '1.11');
+		assert.strictEqual(branchNaming.nextVersion(['2.0', '1.7']), '2.1');
+	});
+
+	test('counter counts up from the highest version', () => {
+		const branchNaming = naming('v{version}/{date}', 'counter');
+		assert.strictEqual(branchNaming.nextVersion([]), '1');
+		assert.strictEqual(branchNaming.nextVersion(['2', '10', '9']), '11');
+	});
+
+	test('date numbers the backups of each day', () => {
+		const branchNaming = naming('v{version}/{date}', 'date');
+		assert.strictEqual(branchNaming.nextVersion([], date), '2026.10.19.1');
+		assert.strictEqual(branchNaming.nextVersion(['2026.10.19.1', '2026.10.19.2', '2026.10.18.9'], date), '2026.10.19.3');
+		assert.strictEqual(branchNaming.nextVersion(['2026.10.18.9'], date), '2026.10.19.1');
+	});
+
+	test('ignores versions of other schemes', () => {
+		assert.strictEqual(naming('v{version}/{date}', 'counter').nextVersion(['1.4', '2026.10.19.3']), '1');
+		assert.strictEqual(naming('v{version}/{date}').nextVersion(['12', '2026.10.19.3']), '1.0');
+		assert.strictEqual(naming('v{version}/{date}', 'date').nextVersion(['5', '1.4'], date), '2026.10.19.1');
+	});
+
+	test('follows a formatted and parsed branch', () => {
+		for (const scheme of ['majorMinor', 'date', 'counter'] as VersionScheme[]) {
+			const branchNaming = naming('backups/{date}-v{version}', scheme);
+			const first = branchNaming.nextVersion([], date);
+			const parsed = branchNaming.parse(branchNaming.format({ version: first, date }));
+			assert.ok(parsed, scheme);
+			const second = branchNaming.nextVersion([parsed.version], date);
+			assert.ok(compareVersions(second, first) > 0, `${scheme}: ${second} after ${first}`);
+		}
+	});
+});
+
+suite('compareVersions', () => {
+	test('compares numerically, part by part', () => {
+		assert.ok(compareVersions('1.10', '1.9') > 0);
+		assert.ok(compareVersions('2.0', '1.99') > 0);
+		assert.ok(compareVersions('2026.10.19.10', '2026.10.19.2') > 0);
+		assert.ok(compareVersions('10', '9') > 0);
+		assert.strictEqual(compareVersions('1.0', '1.0'), 0);
+	});
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { IRetentionPolicy } from '../../types/interfaces';
+import { BackupBranchNaming } from '../../utils/backupBranch';
+import { RetentionPolicy } from '../../services/retentionPolicy';
+
+const naming = new BackupBranchNaming({ template: 'v{version}/{date}', versionScheme: 'counter' });
+// Monday 19 October 2026, 12:00 local time
+const now = new Date(2026, 9, 19, 12, 0, 0);
+
+const noRules: IRetentionPolicy = {
+	enabled: true,
+	keepLast: 0,
+	keepWithinDays: 0,
+	keepHourly: 0,
+	keepDaily: 0,
+	keepWeekly: 0,
+	keepMonthly: 0
+};
+
+// Backup branches made at the given local times, numbered oldest first
+function branches(...dates: Date[]): string[] {
+	return dates
+		.slice()
+		.sort((a, b) => a.getTime() - b.getTime())
+		.map((date, index) => naming.format({ version: `${index + 1}`, date }));
+}
+
+function branchAt(date: Date): string {
+	return naming.format({ version: '1', date }).replace(/^v1\//, '');
+}
+
+function plan(rules: Partial<IRetentionPolicy>, names: string[]) {
+	return new RetentionPolicy({ ...noRules, ...rules }, naming).plan(names, now);
+}
+
+function keptTimes(rules: Partial<IRetentionPolicy>, dates: Date[]): string[] {
+	return plan(rules, branches(...dates)).keep.map(name => name.replace(/^v\d+\//, ''));
+}
+
+suite('RetentionPolicy', () => {
+	test('keeps everything without rules', () => {
+		const names = branches(new Date(2026, 0, 1), new Date(2026, 5, 1), new Date(2026, 9, 19));
+		assert.deepStrictEqual(plan({}, names).prune, []);
+		assert.strictEqual(plan({}, names).keep.length, 3);
+	});
+
+	test('never considers branches that are not backups', () => {
+		const names = ['main', 'feature/login', ...branches(new Date(2026, 9, 1), new Date(2026, 9, 2))];
+		const result = plan({ keepLast: 1 }, names);
+		assert.deepStrictEqual([...result.keep, ...result.prune].sort(), branches(new Date(2026, 9, 1), new Date(2026, 9, 2)).sort());
+	});
+
+	test('keepLast keeps the newest backups', () => {
+		const dates = [1, 2, 3, 4, 5].map(day => new Date(2026, 9, day));
+		assert.deepStrictEqual(keptTimes({ keepLast: 2 }, dates), [branchAt(dates[4]), branchAt(dates[3])]);
+	});
+
+	test('always keeps the newest backup', () => {
+		const dates = [new Date(2026, 0, 1), new Date(2026, 0, 2)];
+		// Both backups are outside the window, but the newest survives anyway
+		assert.deepStrictEqual(keptTimes({ keepWithinDays: 7 }, dates), [branchAt(dates[1])]);
+	});
+
+	test('keepWithinDays keeps backups younger than the cutoff only', () => {
+		const inside = new Date(2026, 9, 12, 12, 0, 1);
+		const atCutoff = new Date(2026, 9, 12, 12, 0, 0);
+		const outside = new Date(2026, 9, 12, 11, 59, 59);
+		const newest = new Date(2026, 9, 19, 11, 0, 0);
+		assert.deepStrictEqual(
+			keptTimes({ keepWithinDays: 7 }, [outside, atCutoff, inside, newest]),
+			[branchAt(newest), branchAt(inside)]
+		);
+	});
+
+	test('keepHourly keeps the newest backup of each recent hour', () => {
+		const dates = [
+			new Date(2026, 9, 19, 10, 59),
+			new Date(2026, 9, 19, 10, 0),
+			new Date(2026, 9, 19, 9, 59),
+			new Date(2026, 9, 19, 8, 30)
+		];
+		assert.deepStrictEqual(keptTimes({ keepHourly: 2 }, dates), [branchAt(dates[0]), branchAt(dates[2])]);
+	});
+
+	test('keepDaily splits days at midnight', () => {
+		const dates = [
+			new Date(2026, 9, 19, 0, 0, 0),
+			new Date(2026, 9, 18, 23, 59, 59),
+			new Date(2026, 9, 18, 8, 0, 0),
+			new Date(2026, 9, 17, 12, 0, 0)
+		];
+		assert.deepStrictEqual(keptTimes({ keepDaily: 2 }, dates), [branchAt(dates[0]), branchAt(dates[1])]);
+	});
+
+	test('keepWeekly uses ISO weeks starting on Monday', () => {
+		const monday = new Date(2026, 9, 19, 9, 0);
+		const sunday = new Date(2026, 9, 18, 20, 0);
+		const lastMonday = new Date(2026, 9, 12, 9, 0);
+		const weekBefore = new Date(2026, 9, 11, 9, 0);
+		assert.deepStrictEqual(
+			keptTimes({ keepWeekly: 2 }, [monday, sunday, lastMonday, weekBefore]),
+			[branchAt(monday), branchAt(sunday)]
+		);
+	});
+
+	test('keepMonthly keeps the newest backup of each recent month', () => {
+		const dates = [
+			new Date(2026, 9, 1, 0, 0),
+			new Date(2026, 8, 30, 23, 59),
+			new Date(2026, 8, 1, 9, 0),
+			new Date(2026, 7, 31, 9, 0)
+		];
+		assert.deepStrictEqual(keptTimes({ keepMonthly: 2 }, dates), [branchAt(dates[0]), branchAt(dates[1])]);
+	});
+
+	test('keeps a backup when any of several overlapping rules keeps it', () => {
+		const dates = [
+			new Date(2026, 9, 19, 11, 0),
+			new Date(2026, 9, 19, 10, 0),
+			new Date(2026, 9, 18, 10, 0),
+			new Date(2026, 9, 5, 10, 0),
+			new Date(2026, 8, 20, 10, 0),
+			new Date(2026, 8, 10, 10, 0),
+			new Date(2026, 6, 1, 10, 0)
+		];
+		const kept = keptTimes({ keepLast: 1, keepWithinDays: 2, keepDaily: 3, keepMonthly: 2 }, dates);
+		// keepLast and keepWithinDays: the 19th and 18th; keepDaily adds the 5th as the third
+		// day; keepMonthly adds 20 September
+		assert.deepStrictEqual(kept, [0, 1, 2, 3, 4].map(i => branchAt(dates[i])));
+	});
+
+	test('hasRules is false when every count is zero', () => {
+		assert.strictEqual(new RetentionPolicy(noRules, naming).hasRules(), false);
+		assert.strictEqual(new RetentionPolicy({ ...noRules, keepWeekly: 1 }, naming).hasRules(), true);
+	});
+});
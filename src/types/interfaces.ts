@@ -6,6 +6,120 @@ export interface IVersion0Config {
   targetBackupRepoUrl?: string;
   enableNotifications: boolean;
   autoStart: boolean;
+  retention: IRetentionPolicy;
+  triggers: IBackupTriggers;
+}
+
+/**
+ * Activity-based backup triggers, used in addition to the fixed backup interval.
+ */
+export interface IBackupTriggers {
+  saveEnabled: boolean;
+  saveCount: number;
+  idleEnabled: boolean;
+  editMinutes: number;
+  idleMinutes: number;
+  windowBlurEnabled: boolean;
+  debounceSeconds: number;
+  minGapMinutes: number;
+}
+
+export type BackupTrigger = 'save' | 'idle' | 'windowBlur';
+
+// Settings-level file rules applied with the folder's .version0ignore
+export interface IBackupFilterSettings {
+  exclude: string[];
+  include: string[];
+}
+
+// How the version in backup branch names counts up: 1.0, 1.1, ... / 2026.10.19.1, ... / 1, 2, ...
+export type VersionScheme = 'majorMinor' | 'date' | 'counter';
+
+export interface IBackupBranchNaming {
+  /** Branch name template with {version}, {date}, {branch}, {user} and {host} placeholders */
+  template: string;
+  versionScheme: VersionScheme;
+}
+
+// What happens to files above the size limit
+export type LargeFilePolicy = 'skip' | 'lfs' | 'abort';
+
+export interface ILargeFileSettings {
+  /** Size limit in MB; 0 disables the check */
+  maxSizeMB: number;
+  policy: LargeFilePolicy;
+}
+
+// A file that exceeded the size limit and what was done with it
+export interface ILargeFileOutcome {
+  path: string;
+  size: number;
+  action: 'skipped' | 'lfs';
+}
+
+// What happens to a backup that contains possible secrets
+export type SecretScanAction = 'block' | 'redact';
+
+// What a secret scan guarded: a backup, or a push of the current branch to the backup target
+export type SecretScanOperation = 'backup' | 'push';
+
+export interface ISecretScanning {
+  enabled: boolean;
+  action: SecretScanAction;
+}
+
+// A possible secret in a file about to be backed up
+export interface ISecretFinding {
+  path: string;
+  /** Line of a content finding; missing when the file name itself is the finding */
+  line?: number;
+  rule: string;
+  description: string;
+  /** Masked excerpt that identifies the secret without revealing it */
+  preview: string;
+  /** Stable id used for allow-listing */
+  fingerprint: string;
+}
+
+// Git operations that get an automatic safety backup of the state before them. 'discard' is
+// local changes dropped without a reset, e.g. "Discard Changes" or `git restore`
+export type RiskyGitOperation = 'rebase' | 'reset' | 'checkout' | 'merge' | 'discard';
+
+// What started a backup: the user, the interval timer, an activity trigger or a risky git operation
+export type BackupSource = 'manual' | 'timer' | BackupTrigger | `pre-${RiskyGitOperation}`;
+
+/**
+ * Machine-readable metadata stored with every backup commit as `Version0-*` trailers.
+ * Fields are optional because older backups carry only some of them.
+ */
+export interface IBackupMetadata {
+  version?: string;
+  createdAt?: string;
+  trigger?: string;
+  sourceBranch?: string;
+  headSha?: string;
+  hostname?: string;
+  changedFiles?: number;
+  insertions?: number;
+  deletions?: number;
+  note?: string;
+  /** Number of secrets replaced or files left out by secret scanning */
+  redacted?: number;
+  /** Number of files over the size limit stored through Git LFS or left out */
+  lfsFiles?: number;
+  skippedLargeFiles?: number;
+  /** '<algorithm> <key id>' when file contents are encrypted */
+  encryption?: string;
+}
+
+export interface IRetentionPolicy {
+  enabled: boolean;
+  keepLast: number;
+  keepWithinDays: number;
+  keepHourly: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
 }
 
 // GitHub interfaces
@@ -50,6 +164,14 @@ export interface IGitHubIssue {
   url: string;
 }
 
+// Narrows an issue listing; every set field must match
+export interface IIssueFilter {
+  label?: string;
+  /** A login, or 'none' for unassigned issues */
+  assignee?: string;
+  author?: string;
+}
+
 export interface IGitHubLabel {
   name: string;
   color: string;
@@ -60,38 +182,107 @@ export interface IGitHubLabel {
 export interface IConfigManager {
   getGitHubToken(): Promise<string | undefined>;
   setGitHubToken(token: string): Promise<void>;
-  getTargetBackupRepoUrl(): string | undefined;
-  setTargetBackupRepoUrl(url: string): Promise<void>;
+  getEncryptionKey(): Promise<string | undefined>;
+  setEncryptionKey(key: string): Promise<void>;
+  getTargetBackupRepoUrl(folderUri: vscode.Uri): string | undefined;
+  setTargetBackupRepoUrl(folderUri: vscode.Uri, url: string | undefined): Promise<void>;
+  clearTargetBackupRepoUrl(folderUri: vscode.Uri): Promise<void>;
   getBackupInterval(): number;
   setBackupInterval(interval: number): Promise<void>;
   getEnableNotifications(): boolean;
   setEnableNotifications(enable: boolean): Promise<void>;
   getAutoStart(): boolean;
   setAutoStart(enable: boolean): Promise<void>;
+  getRetentionPolicy(): IRetentionPolicy;
+  getBackupTriggers(): IBackupTriggers;
+  getSafetyBackupsEnabled(): boolean;
+  getEncryptionEnabled(): boolean;
+  getSecretScanning(): ISecretScanning;
+  getLargeFileSettings(): ILargeFileSettings;
+  getBackupBranchNaming(): IBackupBranchNaming;
+  getSecretAllowlist(folderUri: vscode.Uri): string[];
+  setSecretAllowlist(folderUri: vscode.Uri, fingerprints: string[]): Promise<void>;
+  getGitHubWebUrl(): string;
+  getGitHubApiUrl(): string;
+  isGitHubEnterprise(): boolean;
+  getBackupTargetType(folderUri: vscode.Uri): BackupTargetKind | 'auto';
+  getBackupFilterSettings(folderUri: vscode.Uri): IBackupFilterSettings;
+  setBackupTriggers(triggers: Partial<IBackupTriggers>): Promise<void>;
+  getLastBackupTree(folderUri: vscode.Uri): ILastBackupTree | undefined;
+  setLastBackupTree(folderUri: vscode.Uri, tree: ILastBackupTree): Promise<void>;
+  getPendingUploads(): IPendingUpload[];
+  setPendingUploads(uploads: IPendingUpload[]): Promise<void>;
+}
+
+// Where backup branches are stored
+export type BackupTargetKind = 'github' | 'git' | 'local';
+
+/**
+ * A repository that receives backup branches. Pushing and fetching always go through
+ * git; a target provides everything else the backup features need.
+ */
+export interface IBackupTarget {
+  readonly kind: BackupTargetKind;
+  readonly url: string;
+  /** Whether large files can be stored through Git LFS */
+  readonly supportsLfs: boolean;
+  /** Make sure the target can be used, authenticating or creating it if needed */
+  ensureReady(): Promise<boolean>;
+  checkAccess(): Promise<{status: 'success' | 'error', message: string}>;
+  /** Branch names on the target; throws when the target cannot be listed */
+  listBranches(): Promise<string[]>;
+  deleteBranch(branchName: string): Promise<void>;
+  /** Web pages for the target, when it has a web UI */
+  getBranchWebUrl(branchName: string): string | undefined;
+  getCompareWebUrl(baseBranch: string, headBranch: string): string | undefined;
+  getNewPullRequestWebUrl(branchName: string): string | undefined;
+  /** Whether tags can be published as releases */
+  readonly supportsReleases: boolean;
+  /** Publish a release for a pushed tag and return its web URL */
+  createRelease(tagName: string, title: string, notes: string): Promise<string | undefined>;
 }
 
 export interface IGitHubService {
   authenticate(): Promise<boolean>;
   isAuthenticated(): Promise<boolean>;
+  hasToken(): Promise<boolean>;
+  listBackups(repoUrl: string): Promise<IBackupInfo[]>;
   setToken(token: string): Promise<void>;
   clearToken(): Promise<void>;
+  isGitHubRepoUrl(url: string): boolean;
   getBackupBranchesFromTargetUrl(targetRepoUrl: string): Promise<string[]>;
+  deleteBranch(repoUrl: string, branchName: string): Promise<void>;
   createPrivateRepository(name: string): Promise<{url?: string, error?: string}>;
   checkRepositoryAccess(repoUrl: string): Promise<{status: 'success' | 'error', message: string}>;
   getPullRequests(repoUrl: string): Promise<IGitHubPullRequest[]>;
+  getDefaultBranch(repoUrl: string): Promise<string>;
   createPullRequest(repoUrl: string, title: string, body: string, headBranch: string, baseBranch: string): Promise<IGitHubPullRequest>;
-  getIssues(repoUrl: string): Promise<IGitHubIssue[]>;
+  getIssues(repoUrl: string, filter?: IIssueFilter): Promise<IGitHubIssue[]>;
+  getAssignableUsers(repoUrl: string): Promise<string[]>;
   createIssue(repoUrl: string, title: string, body: string): Promise<IGitHubIssue>;
+  createRelease(repoUrl: string, tagName: string, name: string, body: string): Promise<string>;
 }
 
 export interface IBackupManager {
   start(): void;
   stop(): void;
   restartTimer(): void;
-  triggerManualBackup(): Promise<void>;
-  restoreFromBackup(branchName: string): Promise<void>;
-  restoreLatestBackup(): Promise<void>;
-  pushCurrentState(): Promise<{ branchName: string; pullRequestUrl?: string } | void>;
+  triggerManualBackup(folder?: vscode.WorkspaceFolder): Promise<IBackupResult | undefined>;
+  restoreFromBackup(branchName: string, folder?: vscode.WorkspaceFolder, dryRun?: boolean): Promise<IRestoreResult>;
+  restoreLatestBackup(folder?: vscode.WorkspaceFolder, dryRun?: boolean): Promise<IRestoreResult>;
+  getWorkingTreeState(folder: vscode.WorkspaceFolder): Promise<IWorkingTreeState>;
+  pushCurrentState(folder: vscode.WorkspaceFolder | undefined, options: IPushOptions): Promise<IPushResult | void>;
+  getFolderStatuses(): IFolderBackupStatus[];
+  pruneBackups(folder?: vscode.WorkspaceFolder, dryRun?: boolean): Promise<IPruneResult>;
+  listBackups(folder?: vscode.WorkspaceFolder): Promise<IBackupInfo[]>;
+  listMilestones(folder?: vscode.WorkspaceFolder): Promise<IMilestoneInfo[]>;
+  markMilestone(branchName: string, title: string, createRelease: boolean, folder?: vscode.WorkspaceFolder): Promise<IMilestoneInfo>;
+  deleteBackup(branchName: string, folder?: vscode.WorkspaceFolder): Promise<void>;
+  getBackupChanges(branchName: string, folder?: vscode.WorkspaceFolder): Promise<IBackupFileChange[]>;
+  readBackupFile(folder: vscode.WorkspaceFolder, branchName: string, filePath: string): Promise<Buffer | undefined>;
+  listBackupFiles(branchName: string, folder?: vscode.WorkspaceFolder, pathPrefix?: string): Promise<string[]>;
+  restoreBackupFiles(branchName: string, paths: string[], folder?: vscode.WorkspaceFolder): Promise<number>;
+  uploadPendingBackups(folder?: vscode.WorkspaceFolder): Promise<{ uploaded: number; remaining: number }>;
 }
 
 // Webview message interfaces
@@ -115,12 +306,27 @@ export interface IUIState {
   enableNotifications: boolean;
   autoStart: boolean;
   branches: string[];
+  folders: IFolderBackupStatus[];
   pullRequests: IGitHubPullRequest[];
   issues: IGitHubIssue[];
   loading: boolean;
   error?: string;
 }
 
+// Per-folder backup status shown in the sidebar
+export interface IFolderBackupStatus {
+  uri: string;
+  name: string;
+  isGitRepo: boolean;
+  targetRepoUrl?: string;
+  timerActive: boolean;
+  activeTriggers: BackupTrigger[];
+  lastBackupTime?: string;
+  lastBackupBranch?: string;
+  lastError?: string;
+  pendingUploads: number;
+}
+
 // Progress reporting
 export interface IProgressReporter {
   report(progress: { increment?: number; message?: string }): void;
@@ -132,11 +338,114 @@ export interface IBackupResult {
   branchName?: string;
   error?: string;
   timestamp: string;
+  /** Files over the size limit and what was done with them */
+  largeFiles?: ILargeFileOutcome[];
+}
+
+// Backup listing with the metadata recorded in each snapshot commit
+export interface IBackupInfo {
+  branchName: string;
+  version: string;
+  sha: string;
+  timestamp: string;
+  note?: string;
+  sourceBranch?: string;
+  /** A BackupSource, e.g. 'timer' or 'pre-rebase'; missing on older backups */
+  trigger?: string;
+  headSha?: string;
+  hostname?: string;
+  fileCount: number;
+  insertions?: number;
+  deletions?: number;
+  /** Id of the key the backup is encrypted with */
+  encryptionKeyId?: string;
+  redacted?: number;
+}
+
+// A backup marked as a milestone with an annotated tag on the target
+export interface IMilestoneInfo {
+  tagName: string;
+  /** Major version the milestone started, e.g. '2.0' */
+  version: string;
+  title: string;
+  /** Release notes built from the notes of the backups since the previous milestone */
+  notes: string;
+  /** The backup the tag points at */
+  branchName: string;
+  sha: string;
+  createdAt: string;
+  releaseUrl?: string;
+}
+
+// A file that differs between a backup and the working tree
+export interface IBackupFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+}
+
+export interface IPruneResult {
+  dryRun: boolean;
+  kept: string[];
+  pruned: string[];
+  failed: { branchName: string; error: string }[];
+}
+
+/**
+ * Snapshot tree of the last successful backup of a workspace folder, used to skip
+ * backups of an unchanged working tree.
+ */
+export interface ILastBackupTree {
+  treeSha: string;
+  targetRepoUrl: string;
+  branchName: string;
+}
+
+/**
+ * A backup that was committed locally but could not be pushed, waiting to be uploaded.
+ * The snapshot stays under its local ref until the upload succeeds.
+ */
+export interface IPendingUpload {
+  folderUri: string;
+  branchName: string;
+  targetRepoUrl: string;
+  treeSha: string;
+  queuedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
 }
 
 export interface IRestoreResult {
   success: boolean;
   branchName?: string;
   error?: string;
+  dryRun: boolean;
   hasConflicts: boolean;
-}
\ No newline at end of file
+  /** Files whose working tree content differs from the backup */
+  overwrittenFiles: string[];
+  /** Local changes expected to conflict (or that did conflict) when the stash is re-applied */
+  conflictingFiles: string[];
+  stashName?: string;
+}
+
+export interface IWorkingTreeState {
+  /** Checked out branch, undefined on a detached HEAD */
+  branch?: string;
+  changedFiles: number;
+}
+
+export interface IPushOptions {
+  destination: 'backup' | 'origin';
+  /** Commit all uncommitted changes with this message before pushing */
+  commitMessage?: string;
+}
+
+export interface IPushResult {
+  branchName: string;
+  remoteUrl: string;
+  committed: boolean;
+  /** Subject of the pushed head commit */
+  headSubject: string;
+  /** Web page for opening a pull request, when the destination has one */
+  pullRequestUrl?: string;
+}
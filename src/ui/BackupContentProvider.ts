@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { BackupManager } from '../services/backupManager';
+import { isBinaryContent } from '../utils/gitObjects';
+import { formatFileSize } from '../utils/largeFiles';
+
+interface IBackupUriQuery {
+	folder: string;
+	branch: string;
+}
+
+/**
+ * Serves `version0:` documents with file contents read from fetched backup branches,
+ * so backups can be shown in VS Code's diff editor.
+ */
+export class BackupContentProvider implements vscode.TextDocumentContentProvider {
+
+	public static readonly scheme = 'version0';
+
+	constructor(private readonly _backupManager: BackupManager) {}
+
+	/**
+	 * URI of `filePath` as stored in `branchName`. An empty branch name yields an empty document,
+	 * used as the missing side when a file only exists on one side of a diff.
+	 */
+	public static toUri(folder: vscode.WorkspaceFolder, branchName: string, filePath: string): vscode.Uri {
+		const query: IBackupUriQuery = { folder: folder.uri.toString(), branch: branchName };
+		return vscode.Uri.from({
+			scheme: BackupContentProvider.scheme,
+			path: `/${filePath}`,
+			query: JSON.stringify(query)
+		});
+	}
+
+	public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+		let query: IBackupUriQuery;
+		try {
+			query = JSON.parse(uri.query);
+		} catch {
+			return '';
+		}
+		if (!query.branch) {
+			return '';
+		}
+		const folder = this._backupManager.getWorkspaceFolder(query.folder);
+		if (!folder) {
+			return '';
+		}
+		const content = await this._backupManager.readBackupFile(folder, query.branch, uri.path.replace(/^\//, ''));
+		if (!content) {
+			return '';
+		}
+		// The diff editor can only show text; a decoded binary file would be garbage
+		if (isBinaryContent(content)) {
+			return `Binary file (${formatFileSize(content.length)}), not shown as text.`;
+		}
+		return content.toString('utf8');
+	}
+}
@@ -0,0 +1,234 @@
+import * as vscode from 'vscode';
+import moment from 'moment';
+import { BackupManager } from '../services/backupManager';
+import { ConfigManager } from '../services/configManager';
+import { IBackupInfo, IMilestoneInfo } from '../types/interfaces';
+
+export class BackupFolderItem extends vscode.TreeItem {
+	constructor(public readonly folder: vscode.WorkspaceFolder) {
+		super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+		this.iconPath = new vscode.ThemeIcon('root-folder');
+		this.contextValue = 'version0.backupFolder';
+	}
+}
+
+export class BackupGroupItem extends vscode.TreeItem {
+	constructor(
+		label: string,
+		public readonly folder: vscode.WorkspaceFolder,
+		public readonly backups: IBackupInfo[],
+		public readonly groupBy: 'version' | 'day',
+		expanded: boolean
+	) {
+		super(label, expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+		this.description = `${backups.length} backup${backups.length === 1 ? '' : 's'}`;
+		this.iconPath = new vscode.ThemeIcon(groupBy === 'version' ? 'versions' : 'calendar');
+	}
+}
+
+export class BackupItem extends vscode.TreeItem {
+	constructor(public readonly folder: vscode.WorkspaceFolder, public readonly backup: IBackupInfo) {
+		super(`v${backup.version}`, vscode.TreeItemCollapsibleState.None);
+		const time = moment(backup.timestamp);
+		this.description = [time.format('HH:mm:ss'), backup.note].filter(Boolean).join(' · ');
+		const details = [
+			`**${backup.branchName}**`,
+			'',
+			`- Created: ${time.format('YYYY-MM-DD HH:mm:ss')}`,
+			`- Source branch: ${backup.sourceBranch || 'unknown'}${backup.headSha ? ` @ ${backup.headSha.slice(0, 7)}` : ''}`,
+			`- Files changed: ${backup.fileCount}${backup.insertions !== undefined ? ` (+${backup.insertions} -${backup.deletions ?? 0})` : ''}`
+		];
+		if (backup.note) {
+			details.push(`- Note: ${backup.note}`);
+		}
+		if (backup.trigger) {
+			details.push(`- Trigger: ${backup.trigger}`);
+		}
+		if (backup.hostname) {
+			details.push(`- Host: ${backup.hostname}`);
+		}
+		this.tooltip = new vscode.MarkdownString(details.join('\n'));
+		// Safety backups taken before risky git operations stand out in the list
+		this.iconPath = new vscode.ThemeIcon(backup.trigger?.startsWith('pre-') ? 'shield' : 'git-commit');
+		this.contextValue = 'version0.backup';
+	}
+}
+
+export class MilestoneGroupItem extends vscode.TreeItem {
+	constructor(public readonly folder: vscode.WorkspaceFolder, public readonly milestones: IMilestoneInfo[]) {
+		super('Milestones', vscode.TreeItemCollapsibleState.Expanded);
+		this.description = `${milestones.length}`;
+		this.iconPath = new vscode.ThemeIcon('milestone');
+	}
+}
+
+/**
+ * A milestone whose backup still exists; it offers the same actions as the backup.
+ */
+export class MilestoneItem extends BackupItem {
+	constructor(folder: vscode.WorkspaceFolder, backup: IBackupInfo, public readonly milestone: IMilestoneInfo) {
+		super(folder, backup);
+		this.label = milestone.tagName;
+		this.description = [moment(backup.timestamp).format('YYYY-MM-DD'), milestone.title].join(' · ');
+		this.tooltip = new vscode.MarkdownString([
+			`**${milestone.title}** (${milestone.tagName})`,
+			'',
+			`Backup: ${backup.branchName}`,
+			'',
+			milestone.notes
+		].join('\n'));
+		this.iconPath = new vscode.ThemeIcon('milestone');
+	}
+}
+
+class BackupMessageItem extends vscode.TreeItem {
+	constructor(message: string) {
+		super(message, vscode.TreeItemCollapsibleState.None);
+		this.iconPath = new vscode.ThemeIcon('info');
+	}
+}
+
+type BackupTreeNode = BackupFolderItem | MilestoneGroupItem | BackupGroupItem | BackupItem | BackupMessageItem;
+
+/**
+ * Native "Backups" view: milestones of each folder, then its backups grouped by major
+ * version and day.
+ */
+export class BackupTreeProvider implements vscode.TreeDataProvider<BackupTreeNode>, vscode.Disposable {
+
+	public static readonly viewType = 'version0.backupsView';
+
+	private _onDidChangeTreeData = new vscode.EventEmitter<BackupTreeNode | undefined | void>();
+	public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+	private _backupCache = new Map<string, IBackupInfo[]>();
+	private _milestoneCache = new Map<string, IMilestoneInfo[]>();
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly _backupManager: BackupManager,
+		private readonly _configManager: ConfigManager
+	) {
+		this._disposables.push(
+			this._onDidChangeTreeData,
+			_backupManager.onDidChangeFolders(() => this.refresh())
+		);
+	}
+
+	public refresh(): void {
+		this._backupCache.clear();
+		this._milestoneCache.clear();
+		this._onDidChangeTreeData.fire();
+	}
+
+	public getTreeItem(element: BackupTreeNode): vscode.TreeItem {
+		return element;
+	}
+
+	public async getChildren(element?: BackupTreeNode): Promise<BackupTreeNode[]> {
+		if (!element) {
+			const folders = this._backupManager.getWorkspaceFolders();
+			if (folders.length === 0) {
+				return [new BackupMessageItem('No workspace folder open.')];
+			}
+			if (folders.length > 1) {
+				return folders.map(folder => new BackupFolderItem(folder));
+			}
+			return this.getVersionGroups(folders[0]);
+		}
+		if (element instanceof BackupFolderItem) {
+			return this.getVersionGroups(element.folder);
+		}
+		if (element instanceof MilestoneGroupItem) {
+			const backups = await this.getBackups(element.folder);
+			return element.milestones.map(milestone => {
+				const backup = backups.find(b => b.branchName === milestone.branchName);
+				return backup
+					? new MilestoneItem(element.folder, backup, milestone)
+					: new BackupMessageItem(`${milestone.tagName} · ${milestone.title} (backup deleted)`);
+			});
+		}
+		if (element instanceof BackupGroupItem) {
+			if (element.groupBy === 'version') {
+				return this.groupBy(element.backups, b => moment(b.timestamp).format('YYYY-MM-DD'))
+					.map(([day, backups], index) => new BackupGroupItem(day, element.folder, backups, 'day', index === 0));
+			}
+			return element.backups.map(backup => new BackupItem(element.folder, backup));
+		}
+		return [];
+	}
+
+	/**
+	 * The backup taken just before `item` in the same folder, if any.
+	 */
+	public async getPreviousBackup(item: BackupItem): Promise<IBackupInfo | undefined> {
+		const backups = await this.getBackups(item.folder);
+		const index = backups.findIndex(b => b.branchName === item.backup.branchName);
+		return index >= 0 ? backups[index + 1] : undefined;
+	}
+
+	private async getVersionGroups(folder: vscode.WorkspaceFolder): Promise<BackupTreeNode[]> {
+		if (!this._configManager.getTargetBackupRepoUrl(folder.uri)) {
+			return [new BackupMessageItem('No target repository configured.')];
+		}
+		let backups: IBackupInfo[];
+		try {
+			backups = await this.getBackups(folder);
+		} catch (error) {
+			console.error('[BackupTreeProvider] Error listing backups:', error);
+			return [new BackupMessageItem(`Could not list backups: ${(error as Error).message}`)];
+		}
+		if (backups.length === 0) {
+			return [new BackupMessageItem('No backups yet.')];
+		}
+		// major.minor versions are grouped by major version, the other schemes by month
+		const groupKey = (b: IBackupInfo) => /^\d+\.\d+$/.test(b.version)
+			? `v${b.version.split('.')[0]}.x`
+			: moment(b.timestamp).format('MMMM YYYY');
+		const groups: BackupTreeNode[] = this.groupBy(backups, groupKey)
+			.map(([version, versionBackups], index) => new BackupGroupItem(version, folder, versionBackups, 'version', index === 0));
+		const milestones = await this.getMilestones(folder);
+		return milestones.length > 0 ? [new MilestoneGroupItem(folder, milestones), ...groups] : groups;
+	}
+
+	private async getBackups(folder: vscode.WorkspaceFolder): Promise<IBackupInfo[]> {
+		const key = folder.uri.toString();
+		let backups = this._backupCache.get(key);
+		if (!backups) {
+			backups = await this._backupManager.listBackups(folder);
+			this._backupCache.set(key, backups);
+		}
+		return backups;
+	}
+
+	private async getMilestones(folder: vscode.WorkspaceFolder): Promise<IMilestoneInfo[]> {
+		const key = folder.uri.toString();
+		let milestones = this._milestoneCache.get(key);
+		if (!milestones) {
+			try {
+				milestones = await this._backupManager.listMilestones(folder);
+			} catch (error) {
+				// Backups are still listed when the tags cannot be read
+				console.error('[BackupTreeProvider] Error listing milestones:', error);
+				milestones = [];
+			}
+			this._milestoneCache.set(key, milestones);
+		}
+		return milestones;
+	}
+
+	// Group newest-first backups while preserving their order
+	private groupBy(backups: IBackupInfo[], keyOf: (backup: IBackupInfo) => string): [string, IBackupInfo[]][] {
+		const groups = new Map<string, IBackupInfo[]>();
+		for (const backup of backups) {
+			const key = keyOf(backup);
+			const group = groups.get(key) || [];
+			group.push(backup);
+			groups.set(key, group);
+		}
+		return Array.from(groups.entries());
+	}
+
+	public dispose(): void {
+		this._disposables.forEach(d => d.dispose());
+	}
+}
@@ -2,6 +2,14 @@ import * as vscode from 'vscode';
 import { ConfigManager } from '../services/configManager';
 import { BackupManager } from '../services/backupManager';
 import { GithubService } from '../services/githubService';
+import { confirmRestore } from './restoreConfirmation';
+import { createPullRequestFromBackup, mergePullRequest } from './pullRequests';
+import { getFolderGitHubRepositories } from './githubRepositories';
+import { closeIssue, createIssue } from './issues';
+import { pushCurrentBranch } from './pushCurrentBranch';
+import { IBackupInfo, IGitHubIssue, IGitHubPullRequest, IIssueFilter } from '../types/interfaces';
+import { compareVersions } from '../utils/backupBranch';
+import { errorMessage } from '../utils/errorHandler';
 
 export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 
@@ -12,6 +20,11 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 	private _backupManager: BackupManager;
 	private _githubService: GithubService;
 	private _extensionUri: vscode.Uri;
+	// Pull requests last sent to the webview, by repository URL
+	private _pullRequests = new Map<string, IGitHubPullRequest[]>();
+	// Issues last sent to the webview, by repository URL, and the listing they came from
+	private _issues = new Map<string, IGitHubIssue[]>();
+	private _issueQuery: { folderUri?: string; repoUrl?: string; filter: IIssueFilter } = { filter: {} };
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
@@ -23,6 +36,11 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 		this._configManager = configManager;
 		this._backupManager = backupManager;
 		this._githubService = githubService;
+
+		// Keep per-folder status in sync as folders open/close and backups complete
+		context.subscriptions.push(
+			backupManager.onDidChangeFolders(() => this.updateWebviewState())
+		);
 	}
 
 	public resolveWebviewView(
@@ -57,13 +75,35 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					}
 					return;
 				}
+				case 'saveTriggers': {
+					const saveCount = parseInt(message.saveCount, 10);
+					const editMinutes = parseInt(message.editMinutes, 10);
+					const idleMinutes = parseInt(message.idleMinutes, 10);
+					if (isNaN(saveCount) || saveCount < 1 || isNaN(editMinutes) || editMinutes < 0 || isNaN(idleMinutes) || idleMinutes < 1) {
+						vscode.window.showErrorMessage('Invalid trigger values.');
+						return;
+					}
+					await this._configManager.setBackupTriggers({
+						saveEnabled: !!message.saveEnabled,
+						saveCount,
+						idleEnabled: !!message.idleEnabled,
+						editMinutes,
+						idleMinutes,
+						windowBlurEnabled: !!message.windowBlurEnabled
+					});
+					this._view?.webview.postMessage({ command: 'updateStatus', text: 'Backup triggers saved.' });
+					return;
+				}
 				case 'saveTargetRepo': {
 					const repoUrl = message.text;
-					if (repoUrl && (repoUrl.startsWith('https://') || repoUrl.includes(':'))) {
-						await this._configManager.setTargetBackupRepoUrl(repoUrl);
-						this._view?.webview.postMessage({ command: 'targetRepoSaved', value: repoUrl });
-						vscode.window.showInformationMessage(`Target backup repository set to ${repoUrl}.`);
-						this.refreshBranches();
+					// Remote URLs (https, ssh) or a local path for an on-disk bare repository
+					if (repoUrl && (repoUrl.startsWith('https://') || repoUrl.includes(':') || repoUrl.startsWith('/'))) {
+						const folder = await this._resolveFolder(message.folderUri, 'Select the workspace folder for this target repository');
+						if (!folder) return;
+						await this._configManager.setTargetBackupRepoUrl(folder.uri, repoUrl);
+						this._view?.webview.postMessage({ command: 'targetRepoSaved', value: repoUrl, folderUri: folder.uri.toString() });
+						vscode.window.showInformationMessage(`Target backup repository for '${folder.name}' set to ${repoUrl}.`);
+						this.updateWebviewState();
 					} else {
 						vscode.window.showErrorMessage('Invalid repository URL format.');
 					}
@@ -76,6 +116,8 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						this._view?.webview.postMessage({ command: 'updateStatus', text: 'Repository creation failed: Name empty.' });
 						return;
 					}
+					const folderForRepo = await this._resolveFolder(message.folderUri, 'Select the workspace folder that will back up to the new repository');
+					if (!folderForRepo) return;
 					vscode.window.withProgress({
 						location: vscode.ProgressLocation.Notification,
 						title: `Version0: Creating GitHub repository '${repoNameToCreate}'...`,
@@ -85,10 +127,10 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						const result = await this._githubService.createPrivateRepository(repoNameToCreate);
 						if (result.url) {
 							progress.report({ increment: 100, message: "Repository created!" });
-							await this._configManager.setTargetBackupRepoUrl(result.url);
+							await this._configManager.setTargetBackupRepoUrl(folderForRepo.uri, result.url);
 							vscode.window.showInformationMessage(`Successfully created private repository: ${result.url}`);
-							this._view?.webview.postMessage({ command: 'repoCreated', newUrl: result.url, message: `Repository ${repoNameToCreate} created. Target URL updated.` });
-							this.refreshBranches(); // Refresh branches as the target repo has changed
+							this._view?.webview.postMessage({ command: 'repoCreated', newUrl: result.url, folderUri: folderForRepo.uri.toString(), message: `Repository ${repoNameToCreate} created. Target URL for '${folderForRepo.name}' updated.` });
+							this.updateWebviewState(); // Webview re-requests branches as the target repo has changed
 						} else {
 							vscode.window.showErrorMessage(`Failed to create repository: ${result.error}`);
 							this._view?.webview.postMessage({ command: 'updateStatus', text: `Repo creation failed: ${result.error}` });
@@ -96,14 +138,17 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					});
 					return;
 				}
-				case 'syncRepo':
+				case 'syncRepo': {
+					const folderToSync = await this._resolveFolder(message.folderUri, 'Select the workspace folder to sync');
+					if (!folderToSync) return;
 					vscode.window.withProgress({
 						location: vscode.ProgressLocation.Notification,
 						title: "Version0: Syncing repository status...",
 						cancellable: false
 					}, async (progress) => {
+						const target = this._backupManager.getBackupTarget(folderToSync);
 						progress.report({ increment: 0, message: "Checking authentication..." });
-						const isAuthenticated = await this._githubService.isAuthenticated();
+						const isAuthenticated = target?.kind !== 'github' || await this._githubService.isAuthenticated();
 						if (!isAuthenticated) {
 							vscode.window.showErrorMessage('GitHub authentication required. Please authenticate first.');
 							this._view?.webview.postMessage({ command: 'updateStatus', text: 'Sync failed: GitHub authentication required.' });
@@ -126,15 +171,14 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						}
 
 						progress.report({ increment: 30, message: "Checking target repository URL..." });
-						const currentTargetRepoUrl = this._configManager.getTargetBackupRepoUrl();
-						if (!currentTargetRepoUrl) {
-							vscode.window.showWarningMessage('Target backup repository URL is not set. Please set it first.');
+						if (!target) {
+							vscode.window.showWarningMessage(`Target backup repository URL is not set for '${folderToSync.name}'. Please set it first.`);
 							this._view?.webview.postMessage({ command: 'updateStatus', text: 'Sync failed: Target repository URL is not set.' });
 							return;
 						}
 
 						progress.report({ increment: 60, message: "Checking repository access..." });
-						const accessResult = await this._githubService.checkRepositoryAccess(currentTargetRepoUrl);
+						const accessResult = await target.checkAccess();
 						if (accessResult.status === 'success') {
 							progress.report({ increment: 100, message: "Sync successful!" });
 							vscode.window.showInformationMessage(`Sync successful: ${accessResult.message}`);
@@ -146,7 +190,10 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						}
 					});
 					return;
-				case 'backupNow':
+				}
+				case 'backupNow': {
+					const folderToBackup = await this._resolveFolder(message.folderUri, 'Select the workspace folder to back up');
+					if (!folderToBackup) return;
 					vscode.window.withProgress({
 						location: vscode.ProgressLocation.Notification,
 						title: "Version0: Running manual backup...",
@@ -154,10 +201,24 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					}, async (progress) => {
 						try {
 							progress.report({ increment: 0, message: "Starting backup..." });
-							await this._backupManager.triggerManualBackup();
+							const result = await this._backupManager.triggerManualBackup(folderToBackup);
+							if (!result) {
+								this._view?.webview.postMessage({ command: 'updateStatus', text: 'Backup skipped: nothing changed since the last backup.' });
+								return;
+							}
 							progress.report({ increment: 100, message: "Backup successful!" });
 							vscode.window.showInformationMessage('Version0: Manual backup completed successfully.');
-							this._view?.webview.postMessage({ command: 'updateStatus', text: `Last backup: ${new Date().toLocaleTimeString()}` });
+							const largeFiles = result.largeFiles || [];
+							const skipped = largeFiles.filter(file => file.action === 'skipped').length;
+							const stored = largeFiles.length - skipped;
+							const largeFileNote = [
+								skipped > 0 ? `${skipped} large file(s) skipped` : '',
+								stored > 0 ? `${stored} stored with Git LFS` : ''
+							].filter(Boolean).join(', ');
+							this._view?.webview.postMessage({
+								command: 'updateStatus',
+								text: `Last backup: ${new Date().toLocaleTimeString()}${largeFileNote ? ` (${largeFileNote})` : ''}`
+							});
 							this.refreshBranches();
 						} catch (error) {
 							vscode.window.showErrorMessage(`Version0: Backup failed: ${(error as Error).message}`);
@@ -165,12 +226,108 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						}
 					});
 					return;
+				}
+				case 'uploadPendingBackups': {
+					const folderToUpload = message.folderUri ? this._backupManager.getWorkspaceFolder(message.folderUri) : undefined;
+					await vscode.commands.executeCommand('version0.uploadPendingBackups', folderToUpload);
+					this.updateWebviewState();
+					return;
+				}
 				case 'getBranches':
 					await this.refreshBranches();
 					return;
+				case 'getPullRequests':
+					await this.refreshPullRequests(message.folderUri);
+					return;
+				case 'pushCurrentBranch': {
+					const folderToPush = await this._resolveFolder(message.folderUri, 'Select the workspace folder to push');
+					if (!folderToPush) return;
+					try {
+						await pushCurrentBranch(this._backupManager, this._githubService, folderToPush);
+					} catch (error) {
+						vscode.window.showErrorMessage(`Version0: ${(error as Error).message}`);
+						this._view?.webview.postMessage({ command: 'updateStatus', text: `Push failed: ${(error as Error).message}` });
+					}
+					// The push may have updated an open pull request even when none was created
+					await this.refreshPullRequests(folderToPush.uri.toString());
+					return;
+				}
+				case 'createPullRequest': {
+					const folderForPullRequest = await this._resolveFolder(message.folderUri, 'Select the workspace folder to open a pull request for');
+					if (!folderForPullRequest) return;
+					try {
+						if (await createPullRequestFromBackup(this._backupManager, this._githubService, folderForPullRequest, message.branchName)) {
+							await this.refreshPullRequests(folderForPullRequest.uri.toString());
+						}
+					} catch (error) {
+						vscode.window.showErrorMessage(`Version0: ${(error as Error).message}`);
+					}
+					return;
+				}
+				case 'mergePullRequest': {
+					const pullRequest = this._pullRequests.get(message.repoUrl)?.find(pr => pr.number === message.number);
+					if (!pullRequest) return;
+					try {
+						if (await mergePullRequest(this._githubService, message.repoUrl, pullRequest)) {
+							await this.refreshPullRequests(message.folderUri);
+						}
+					} catch (error) {
+						vscode.window.showErrorMessage(`Version0: ${(error as Error).message}`);
+					}
+					return;
+				}
+				case 'getIssues':
+					await this.refreshIssues({
+						folderUri: message.folderUri,
+						repoUrl: message.repoUrl,
+						filter: { label: message.label, assignee: message.assignee, author: message.author }
+					});
+					return;
+				case 'createIssue': {
+					if (!message.repoUrl) return;
+					try {
+						if (await createIssue(this._githubService, message.repoUrl)) {
+							await this.refreshIssues();
+						}
+					} catch (error) {
+						vscode.window.showErrorMessage(`Version0: ${(error as Error).message}`);
+					}
+					return;
+				}
+				case 'closeIssue': {
+					const issue = this._issues.get(message.repoUrl)?.find(i => i.number === message.number);
+					if (!issue) return;
+					try {
+						if (await closeIssue(this._githubService, message.repoUrl, issue)) {
+							await this.refreshIssues();
+						}
+					} catch (error) {
+						vscode.window.showErrorMessage(`Version0: ${(error as Error).message}`);
+					}
+					return;
+				}
+				case 'openExternal':
+					if (typeof message.url === 'string' && /^https?:\/\//.test(message.url)) {
+						vscode.env.openExternal(vscode.Uri.parse(message.url));
+					}
+					return;
+				case 'compareBackup': {
+					const folderToCompare = await this._resolveFolder(message.folderUri, 'Select the workspace folder to compare');
+					if (!message.branchName || !folderToCompare) return;
+					vscode.commands.executeCommand('version0.compareWithWorkingTree', { folder: folderToCompare, branchName: message.branchName });
+					return;
+				}
+				case 'restoreFiles': {
+					const folderToRestoreInto = await this._resolveFolder(message.folderUri, 'Select the workspace folder to restore into');
+					if (!message.branchName || !folderToRestoreInto) return;
+					vscode.commands.executeCommand('version0.restoreFilesFromBackup', { folder: folderToRestoreInto, branchName: message.branchName });
+					return;
+				}
 				case 'restoreBackup': {
 					const branchToRestore = message.branchName;
 					if (!branchToRestore) return;
+					const folderToRestore = await this._resolveFolder(message.folderUri, 'Select the workspace folder to restore');
+					if (!folderToRestore) return;
 
 					vscode.window.withProgress({
 						location: vscode.ProgressLocation.Notification,
@@ -179,7 +336,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					}, async (progress) => {
 						try {
 							progress.report({ increment: 0, message: "Starting restore..." });
-							await this._backupManager.restoreFromBackup(branchToRestore);
+							await this._backupManager.restoreFromBackup(branchToRestore, folderToRestore);
 							progress.report({ increment: 100, message: "Restore successful!" });
 							this._view?.webview.postMessage({ command: 'updateStatus', text: `Restored from ${branchToRestore} at ${new Date().toLocaleTimeString()}` });
 						} catch (error) {
@@ -202,7 +359,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					vscode.window.showInformationMessage('GitHub token removed.');
 					this.updateAuthStatus();
 					return;
-				case 'githubLogin':
+				case 'githubLogin': {
 					// Trigger VS Code GitHub authentication session
 					const authSuccess = await this._githubService.authenticateWithVSCode();
 					if (authSuccess) {
@@ -212,6 +369,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						vscode.window.showErrorMessage('GitHub login failed. Try manual token instead.');
 					}
 					return;
+				}
 				case 'saveManualToken':
 					if (message.token && message.token.trim() !== '') {
 						await this._githubService.setToken(message.token.trim());
@@ -234,15 +392,19 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 				case 'requestRestore': { // New case to handle confirmation
 					const branchToRequestRestore = message.branchName;
 					if (!branchToRequestRestore) return;
+					const folderToRequestRestore = await this._resolveFolder(message.folderUri, 'Select the workspace folder to restore');
+					if (!folderToRequestRestore) return;
 
-					// Show VS Code native confirmation
-					const confirmation = await vscode.window.showWarningMessage(
-						`Restore workspace to backup branch '${branchToRequestRestore}'? This will overwrite local changes and requires a workspace reload.`,
-						{ modal: true }, // Make it modal
-						'Restore' // Confirmation button text
-					);
+					// Preview the restore and show VS Code native confirmation
+					let confirmedBranch: string | undefined;
+					try {
+						confirmedBranch = await confirmRestore(this._backupManager, folderToRequestRestore, branchToRequestRestore);
+					} catch (error) {
+						this._view?.webview.postMessage({ command: 'updateStatus', text: `Restore preview failed: ${(error as Error).message}` });
+						return;
+					}
 
-					if (confirmation === 'Restore') {
+					if (confirmedBranch) {
 						// User confirmed, proceed with restore
 						vscode.window.withProgress({
 							location: vscode.ProgressLocation.Notification,
@@ -251,7 +413,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						}, async (progress) => {
 							try {
 								progress.report({ increment: 0, message: "Starting restore..." });
-								await this._backupManager.restoreFromBackup(branchToRequestRestore);
+								const result = await this._backupManager.restoreFromBackup(branchToRequestRestore, folderToRequestRestore);
 								progress.report({ increment: 100, message: "Restore successful!" });
 								// It's often good practice to reload the window after a restore
 								// to ensure all file states and UI elements are updated correctly.
@@ -261,7 +423,8 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 											vscode.commands.executeCommand('workbench.action.reloadWindow');
 										}
 									});
-								this._view?.webview.postMessage({ command: 'updateStatus', text: `Restored from ${branchToRequestRestore} at ${new Date().toLocaleTimeString()}` });
+								const conflictNote = result.hasConflicts ? ` (stashed changes conflict in ${result.conflictingFiles.length} file(s))` : '';
+								this._view?.webview.postMessage({ command: 'updateStatus', text: `Restored from ${branchToRequestRestore} at ${new Date().toLocaleTimeString()}${conflictNote}` });
 							} catch (error) {
 								this._view?.webview.postMessage({ command: 'updateStatus', text: `Restore failed: ${(error as Error).message}` });
 								// Keep the error message from BackupManager being shown too
@@ -281,46 +444,166 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 		this.updateAuthStatus();
 	}
 
-	// Helper to fetch and send branches
+	// Resolve the workspace folder a webview message refers to, asking the user if it is missing
+	private async _resolveFolder(folderUri: string | undefined, placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+		if (folderUri) {
+			const folder = this._backupManager.getWorkspaceFolder(folderUri);
+			if (folder) return folder;
+		}
+		return this._backupManager.pickFolder(placeHolder);
+	}
+
+	// Helper to fetch and send branches, grouped per workspace folder
 	public async refreshBranches() {
 		if (!this._view) return; // Exit if view is not ready
 		console.log('[WebviewProvider] refreshBranches called.');
 
 		this._view.webview.postMessage({ command: 'updateStatus', text: 'Fetching branches...' });
 		try {
-			const targetUrl = this._configManager.getTargetBackupRepoUrl();
-			if (!targetUrl) {
-				this._view.webview.postMessage({ command: 'updateBranches', branches: [] });
+			const folders = this._backupManager.getFolderStatuses();
+			if (!folders.some(folder => folder.targetRepoUrl)) {
+				this._view.webview.postMessage({ command: 'updateBranches', folders: [] });
 				this._view.webview.postMessage({ command: 'updateStatus', text: 'Set target repository URL to list branches.' });
 				return;
 			}
 
-			const isAuthenticated = await this._githubService.isAuthenticated();
-			if (!isAuthenticated) {
-				this._view.webview.postMessage({ command: 'updateBranches', branches: [] });
+			const targets = folders.map(folder => {
+				const workspaceFolder = this._backupManager.getWorkspaceFolder(folder.uri);
+				return workspaceFolder ? this._backupManager.getBackupTarget(workspaceFolder) : undefined;
+			});
+			// Only GitHub targets need a GitHub login to be listed
+			if (targets.some(target => target?.kind === 'github') && !await this._githubService.isAuthenticated()) {
+				this._view.webview.postMessage({ command: 'updateBranches', folders: [] });
 				this._view.webview.postMessage({ command: 'updateStatus', text: 'GitHub Auth Required to list branches.' });
 				return;
 			}
-			const branches = await this._githubService.getBackupBranchesFromTargetUrl(targetUrl);
 
-			this._view.webview.postMessage({ command: 'updateBranches', branches: branches });
+			// Backups are described by the metadata in their commits; GitHub targets are read
+			// through the API, other targets from the fetched backup remote
+			const folderBranches = await Promise.all(folders.map(async (folder, index) => {
+				const target = targets[index];
+				const workspaceFolder = this._backupManager.getWorkspaceFolder(folder.uri);
+				let backups: IBackupInfo[] = [];
+				if (target?.kind === 'github') {
+					backups = await this._githubService.listBackups(target.url);
+				} else if (target && workspaceFolder) {
+					backups = await this._backupManager.listBackups(workspaceFolder);
+				}
+				return {
+					uri: folder.uri,
+					name: folder.name,
+					targetRepoUrl: folder.targetRepoUrl,
+					supportsPullRequests: target?.kind === 'github',
+					// The webview's "By version" order is this order
+					backups: backups.sort((a, b) => compareVersions(b.version, a.version)
+						|| new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+				};
+			}));
+
+			this._view.webview.postMessage({ command: 'updateBranches', folders: folderBranches });
 			// Don't override status here, let the webview script do it
 		} catch (error) {
 			console.error('[WebviewProvider] Error refreshing branches:', error);
-			this._view.webview.postMessage({ command: 'updateBranches', branches: [] });
+			this._view.webview.postMessage({ command: 'updateBranches', folders: [] });
 			this._view.webview.postMessage({ command: 'updateStatus', text: `Error fetching branches: ${(error as Error).message}` });
 		}
 	}
 
+	/**
+	 * Send the open pull requests of a folder's GitHub target and of its `origin` to the webview.
+	 */
+	public async refreshPullRequests(folderUri?: string): Promise<void> {
+		if (!this._view) return;
+		const folder = folderUri ? this._backupManager.getWorkspaceFolder(folderUri) : this._backupManager.getWorkspaceFolders()[0];
+		if (!folder) {
+			this._view.webview.postMessage({ command: 'updatePullRequests', repos: [], message: 'No workspace folder open.' });
+			return;
+		}
+
+		try {
+			const repos = await getFolderGitHubRepositories(this._backupManager, this._githubService, folder);
+			if (repos.length === 0) {
+				this._view.webview.postMessage({ command: 'updatePullRequests', repos: [], message: 'Neither the target repository nor origin is on GitHub.' });
+				return;
+			}
+			if (!await this._githubService.isAuthenticated()) {
+				this._view.webview.postMessage({ command: 'updatePullRequests', repos: [], message: 'GitHub Auth Required to list pull requests.' });
+				return;
+			}
+
+			const withPullRequests = await Promise.all(repos.map(async repo => {
+				const pullRequests = await this._githubService.getPullRequests(repo.repoUrl);
+				this._pullRequests.set(repo.repoUrl, pullRequests);
+				return { ...repo, pullRequests };
+			}));
+			this._view.webview.postMessage({ command: 'updatePullRequests', folderUri: folder.uri.toString(), repos: withPullRequests });
+		} catch (error) {
+			console.error('[WebviewProvider] Error refreshing pull requests:', error);
+			this._view.webview.postMessage({ command: 'updatePullRequests', repos: [], message: `Error fetching pull requests: ${errorMessage(error)}` });
+		}
+	}
+
+	/**
+	 * Send the open issues of one of a folder's GitHub repositories to the webview, with the
+	 * labels and assignees to filter by. Without a query the last listing is refreshed.
+	 */
+	public async refreshIssues(query?: { folderUri?: string; repoUrl?: string; filter: IIssueFilter }): Promise<void> {
+		if (!this._view) return;
+		if (query) {
+			this._issueQuery = query;
+		}
+		const { folderUri, filter } = this._issueQuery;
+		const folder = folderUri ? this._backupManager.getWorkspaceFolder(folderUri) : this._backupManager.getWorkspaceFolders()[0];
+		if (!folder) {
+			this._view.webview.postMessage({ command: 'updateIssues', repos: [], message: 'No workspace folder open.' });
+			return;
+		}
+
+		try {
+			const repos = await getFolderGitHubRepositories(this._backupManager, this._githubService, folder);
+			if (repos.length === 0) {
+				this._view.webview.postMessage({ command: 'updateIssues', repos: [], message: 'Neither the target repository nor origin is on GitHub.' });
+				return;
+			}
+			if (!await this._githubService.isAuthenticated()) {
+				this._view.webview.postMessage({ command: 'updateIssues', repos: [], message: 'GitHub Auth Required to list issues.' });
+				return;
+			}
+
+			// Issues usually live in the project's own repository rather than the backup target
+			const repoUrl = repos.find(repo => repo.repoUrl === this._issueQuery.repoUrl)?.repoUrl
+				|| (repos.find(repo => repo.label === 'origin') || repos[0]).repoUrl;
+			const [issues, labels, assignees] = await Promise.all([
+				this._githubService.getIssues(repoUrl, filter),
+				this._githubService.getRepositoryLabels(repoUrl),
+				this._githubService.getAssignableUsers(repoUrl)
+			]);
+			this._issues.set(repoUrl, issues);
+			this._view.webview.postMessage({
+				command: 'updateIssues',
+				folderUri: folder.uri.toString(),
+				repos,
+				repoUrl,
+				filter,
+				labels,
+				assignees,
+				issues
+			});
+		} catch (error) {
+			console.error('[WebviewProvider] Error refreshing issues:', error);
+			this._view.webview.postMessage({ command: 'updateIssues', repos: [], message: `Error fetching issues: ${errorMessage(error)}` });
+		}
+	}
+
 	// Helper to send current state to the webview
 	public updateWebviewState() {
                 if (this._view) {
 			const frequency = this._configManager.getBackupInterval().toString();
-			const targetRepoUrl = ''; // Always send empty target repo URL
 			this._view.webview.postMessage({
 				command: 'updateState',
 				frequency,
-				targetRepoUrl
+				triggers: this._configManager.getBackupTriggers(),
+				folders: this._backupManager.getFolderStatuses()
 			});
                 }
 	}
@@ -361,7 +644,8 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 
 		const nonce = getNonce();
 		const currentFrequency = this._configManager.getBackupInterval().toString();
-		const currentTargetRepoUrl = ''; // Always start with empty target repo URL
+		const currentTargetRepoUrl = ''; // Filled per selected folder once the folder state arrives
+		const githubWebUrl = this._configManager.getGitHubWebUrl();
 
 		return `<!DOCTYPE html>
 			<html lang="en">
@@ -396,6 +680,46 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					.vertical-form-group button {
 						align-self: flex-start;
 					}
+					.vertical-form-group .trigger-option {
+						display: flex;
+						align-items: center;
+						flex-wrap: wrap;
+						gap: 0.3em;
+						margin-bottom: 0.4em;
+					}
+					.vertical-form-group .trigger-option input[type="number"] {
+						width: 4em;
+						margin-bottom: 0;
+					}
+					.branch-filters {
+						display: flex;
+						gap: 0.5em;
+						margin-bottom: 0.5em;
+					}
+					.pr-meta {
+						opacity: 0.8;
+						font-size: 0.9em;
+					}
+					.pr-conflict {
+						color: var(--vscode-editorWarning-foreground);
+					}
+					.issue-label {
+						display: inline-block;
+						padding: 0 0.5em;
+						margin-right: 0.3em;
+						border-radius: 1em;
+						font-size: 0.85em;
+					}
+					.issue-filters input {
+						width: 6em;
+					}
+					.pending-uploads {
+						display: flex;
+						align-items: center;
+						gap: 0.5em;
+						margin-top: 0.2em;
+						color: var(--vscode-editorWarning-foreground);
+					}
 					@media (max-width: 600px) {
 						.button-group {
 							flex-direction: column;
@@ -408,12 +732,25 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 				<h2>VERSION0</h2>
 				
 				<div class="form-container">
+					<div class="vertical-form-group" id="folderGroup" style="display:none;">
+						<label for="folderSelect">Workspace Folder:</label>
+						<select id="folderSelect"></select>
+					</div>
+
 					<div class="vertical-form-group">
 						<label for="frequency">Frequency (min):</label>
                                                 <input type="number" id="frequency" value="${currentFrequency}" min="1">
 						<button id="saveFrequencyBtn">Save</button>
 					</div>
 
+					<div class="vertical-form-group">
+						<label>Activity Triggers:</label>
+						<label class="trigger-option"><input type="checkbox" id="triggerSaveEnabled"> After <input type="number" id="triggerSaveCount" min="1"> saves</label>
+						<label class="trigger-option"><input type="checkbox" id="triggerIdleEnabled"> After <input type="number" id="triggerEditMinutes" min="0"> min editing and <input type="number" id="triggerIdleMinutes" min="1"> min idle</label>
+						<label class="trigger-option"><input type="checkbox" id="triggerBlurEnabled"> When the window loses focus</label>
+						<button id="saveTriggersBtn">Save</button>
+					</div>
+
 					<div class="vertical-form-group">
 						<label for="targetRepo">Target Repo URL:</label>
                                                 <input type="text" id="targetRepo" value="${currentTargetRepoUrl}" placeholder="e.g., https://github.com/user/repo.git">
@@ -430,8 +767,46 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						<button id="pushCurrentBranchBtn">Push Current Branch</button>
 					</div>
 
+					<h3>Folders</h3>
+					<div id="foldersContainer">No workspace folders open.</div>
+
 					<h3>Backup Branches</h3>
+					<div class="branch-filters">
+						<select id="branchTriggerFilter" title="Show backups by trigger">
+							<option value="all">All backups</option>
+							<option value="manual">Manual</option>
+							<option value="automatic">Automatic</option>
+							<option value="safety">Safety</option>
+						</select>
+						<select id="branchSort" title="Sort backups">
+							<option value="newest">Newest first</option>
+							<option value="oldest">Oldest first</option>
+							<option value="version">By version</option>
+						</select>
+					</div>
 					<div id="branchesContainer">Loading branches...</div>
+
+					<h3>Pull Requests</h3>
+					<div class="button-group">
+						<button id="newPullRequestBtn">New from Backup…</button>
+						<button id="refreshPullRequestsBtn">Refresh</button>
+					</div>
+					<div id="pullRequestsContainer">Loading pull requests...</div>
+
+					<h3>Issues</h3>
+					<div class="branch-filters">
+						<select id="issueRepo" title="Repository"></select>
+					</div>
+					<div class="branch-filters issue-filters">
+						<select id="issueLabelFilter" title="Filter by label"><option value="">Any label</option></select>
+						<select id="issueAssigneeFilter" title="Filter by assignee"><option value="">Any assignee</option></select>
+						<input type="text" id="issueAuthorFilter" placeholder="Author" title="Filter by author">
+					</div>
+					<div class="button-group">
+						<button id="newIssueBtn">New Issue…</button>
+						<button id="refreshIssuesBtn">Refresh</button>
+					</div>
+					<div id="issuesContainer">Loading issues...</div>
 					
 					<div id="status">Ready</div>
 
@@ -472,7 +847,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					  <div class="modal-content">
 					    <h4>Create GitHub Personal Access Token</h4>
 					    <ol>
-					      <li>Go to <a href="https://github.com/settings/tokens" target="_blank">GitHub Settings > Personal Access Tokens</a></li>
+					      <li>Go to <a href="${githubWebUrl}/settings/tokens" target="_blank">GitHub Settings > Personal Access Tokens</a></li>
 					      <li>Click "Generate new token" → "Generate new token (classic)"</li>
 					      <li>Give it a name like "Version0 Extension"</li>
 					      <li>Select these scopes:
@@ -508,6 +883,9 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					const vscode = acquireVsCodeApi();
 
 					// Declare variables at the top level of the script
+					let folderGroup;
+					let folderSelect;
+					let foldersContainer;
 					let frequencyInput;
 					let saveFrequencyBtn;
 					let targetRepoInput;
@@ -518,6 +896,14 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					let createRepoBtn;
 					let syncRepoBtn;
 					let branchesContainer;
+					let branchTriggerFilter;
+					let branchSort;
+					let pullRequestsContainer;
+					let issuesContainer;
+					let issueRepo;
+					let issueLabelFilter;
+					let issueAssigneeFilter;
+					let issueAuthorFilter;
 					let statusDiv;
 
 					let createRepoModal;
@@ -539,15 +925,349 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 					let tokenInstructionsModal;
 					let closeInstructionsBtn;
 
-                                        // State object starts blank so user must input values each session
+                                        // State object starts blank until the extension sends the saved values
                                         let state = {
                                                 frequency: '',
-                                                targetRepoUrl: ''
+                                                targetRepoUrl: '',
+                                                folderUri: ''
                                         };
 
+					// Latest per-folder status sent by the extension
+					let folders = [];
+					// Latest per-folder backups, kept to re-render when the filter or sort changes
+					let folderBackups = [];
+
+					function selectedFolderUri() {
+						return folderSelect && folderSelect.value ? folderSelect.value : undefined;
+					}
+
+					const triggerLabels = { save: 'on save', idle: 'on idle', windowBlur: 'on blur' };
+
+					function renderTriggers(triggers) {
+						const setChecked = (id, value) => { const el = document.getElementById(id); if (el) el.checked = !!value; };
+						const setValue = (id, value) => { const el = document.getElementById(id); if (el) el.value = value; };
+						setChecked('triggerSaveEnabled', triggers.saveEnabled);
+						setValue('triggerSaveCount', triggers.saveCount);
+						setChecked('triggerIdleEnabled', triggers.idleEnabled);
+						setValue('triggerEditMinutes', triggers.editMinutes);
+						setValue('triggerIdleMinutes', triggers.idleMinutes);
+						setChecked('triggerBlurEnabled', triggers.windowBlurEnabled);
+					}
+
+					function renderFolders() {
+						if (folderSelect) {
+							const previous = state.folderUri || folderSelect.value;
+							folderSelect.innerHTML = '';
+							folders.forEach(folder => {
+								const option = document.createElement('option');
+								option.value = folder.uri;
+								option.textContent = folder.name;
+								folderSelect.appendChild(option);
+							});
+							if (folders.some(folder => folder.uri === previous)) {
+								folderSelect.value = previous;
+							}
+						}
+						if (folderGroup) folderGroup.style.display = folders.length > 1 ? 'flex' : 'none';
+
+						const selected = folders.find(folder => folder.uri === selectedFolderUri());
+						if (targetRepoInput) targetRepoInput.value = selected && selected.targetRepoUrl ? selected.targetRepoUrl : '';
+
+						if (!foldersContainer) return;
+						foldersContainer.innerHTML = '';
+						if (folders.length === 0) {
+							foldersContainer.textContent = 'No workspace folders open.';
+							return;
+						}
+						const ul = document.createElement('ul');
+						folders.forEach(folder => {
+							const li = document.createElement('li');
+							let text = folder.name + ': ';
+							if (!folder.isGitRepo) {
+								text += 'not a Git repository';
+							} else if (!folder.targetRepoUrl) {
+								text += 'no target repository';
+							} else if (folder.lastError) {
+								text += 'last backup failed (' + folder.lastError + ')';
+							} else if (folder.lastBackupTime) {
+								text += 'last backup ' + new Date(folder.lastBackupTime).toLocaleTimeString() + ' (' + folder.lastBackupBranch + ')';
+							} else {
+								text += 'no backup this session';
+							}
+							if (folder.timerActive) text += ' [auto]';
+							if (folder.activeTriggers && folder.activeTriggers.length > 0) {
+								text += ' [' + folder.activeTriggers.map(trigger => triggerLabels[trigger]).join(', ') + ']';
+							}
+							li.textContent = text;
+							if (folder.pendingUploads > 0) {
+								const pending = document.createElement('div');
+								pending.className = 'pending-uploads';
+								pending.textContent = folder.pendingUploads + (folder.pendingUploads === 1 ? ' backup' : ' backups') + ' pending upload ';
+								const pushNowBtn = document.createElement('button');
+								pushNowBtn.textContent = 'Push now';
+								pushNowBtn.onclick = () => {
+									vscode.postMessage({ command: 'uploadPendingBackups', folderUri: folder.uri });
+								};
+								pending.appendChild(pushNowBtn);
+								li.appendChild(pending);
+							}
+							ul.appendChild(li);
+						});
+						foldersContainer.appendChild(ul);
+					}
+
+					// Backup triggers recorded in the metadata: 'manual', 'timer', activity triggers, 'pre-<operation>'
+					function matchesTriggerFilter(backup) {
+						const filter = branchTriggerFilter ? branchTriggerFilter.value : 'all';
+						const trigger = backup.trigger || '';
+						if (filter === 'manual') return trigger === 'manual';
+						if (filter === 'safety') return trigger.startsWith('pre-');
+						if (filter === 'automatic') return trigger !== 'manual' && !trigger.startsWith('pre-');
+						return true;
+					}
+
+					// Backups arrive ordered by version, newest first
+					function sortBackups(backups) {
+						const sort = branchSort ? branchSort.value : 'newest';
+						if (sort === 'version') return backups.slice();
+						const time = backup => new Date(backup.timestamp).getTime();
+						return backups.slice().sort((a, b) => sort === 'oldest' ? time(a) - time(b) : time(b) - time(a));
+					}
+
+					function describeBackup(backup) {
+						const parts = ['v' + backup.version, new Date(backup.timestamp).toLocaleString()];
+						if (backup.trigger) parts.push(triggerLabels[backup.trigger] || backup.trigger);
+						if (backup.note) parts.push(backup.note);
+						return parts.join(' · ');
+					}
+
+					function backupDetails(backup) {
+						const lines = [backup.branchName];
+						if (backup.sourceBranch) lines.push('Source: ' + backup.sourceBranch + (backup.headSha ? ' @ ' + backup.headSha.slice(0, 7) : ''));
+						let changes = 'Files changed: ' + backup.fileCount;
+						if (backup.insertions !== undefined) changes += ' (+' + backup.insertions + ' -' + (backup.deletions || 0) + ')';
+						lines.push(changes);
+						if (backup.hostname) lines.push('Host: ' + backup.hostname);
+						return lines.join('\\n');
+					}
+
+					function renderBranches(folderBranches) {
+						if (!branchesContainer) return;
+						branchesContainer.innerHTML = '';
+						const withTargets = (folderBranches || []).filter(folder => folder.targetRepoUrl);
+						if (withTargets.length === 0) {
+							branchesContainer.textContent = 'No backup branches found or target repo not set/accessible.';
+							return;
+						}
+						withTargets.forEach(folder => {
+							if (withTargets.length > 1) {
+								const heading = document.createElement('h4');
+								heading.textContent = folder.name;
+								branchesContainer.appendChild(heading);
+							}
+							const backups = sortBackups(folder.backups.filter(matchesTriggerFilter));
+							if (backups.length === 0) {
+								const empty = document.createElement('div');
+								empty.textContent = folder.backups.length === 0 ? 'No backup branches found.' : 'No backups match the filter.';
+								branchesContainer.appendChild(empty);
+								return;
+							}
+							const ul = document.createElement('ul');
+							backups.forEach(backup => {
+								const branch = backup.branchName;
+								const li = document.createElement('li');
+								li.textContent = describeBackup(backup) + ' ';
+								li.title = backupDetails(backup);
+								const restoreButton = document.createElement('button');
+								restoreButton.textContent = 'Restore';
+								restoreButton.className = 'restore-button';
+								restoreButton.onclick = () => {
+									if(statusDiv) statusDiv.textContent = 'Requesting restore for ' + branch + '...';
+									vscode.postMessage({ command: 'requestRestore', branchName: branch, folderUri: folder.uri });
+								};
+								li.appendChild(restoreButton);
+								const compareButton = document.createElement('button');
+								compareButton.textContent = 'Compare';
+								compareButton.className = 'restore-button';
+								compareButton.title = 'Compare with working tree';
+								compareButton.onclick = () => {
+									vscode.postMessage({ command: 'compareBackup', branchName: branch, folderUri: folder.uri });
+								};
+								li.appendChild(compareButton);
+								const filesButton = document.createElement('button');
+								filesButton.textContent = 'Files…';
+								filesButton.className = 'restore-button';
+								filesButton.title = 'Restore selected files only';
+								filesButton.onclick = () => {
+									vscode.postMessage({ command: 'restoreFiles', branchName: branch, folderUri: folder.uri });
+								};
+								li.appendChild(filesButton);
+								if (folder.supportsPullRequests) {
+									const pullRequestButton = document.createElement('button');
+									pullRequestButton.textContent = 'PR…';
+									pullRequestButton.className = 'restore-button';
+									pullRequestButton.title = 'Open a pull request from this backup';
+									pullRequestButton.onclick = () => {
+										vscode.postMessage({ command: 'createPullRequest', branchName: branch, folderUri: folder.uri });
+									};
+									li.appendChild(pullRequestButton);
+								}
+								ul.appendChild(li);
+							});
+							branchesContainer.appendChild(ul);
+						});
+						if(statusDiv) statusDiv.textContent = 'Branches loaded.';
+					}
+
+					function describeMergeable(pr) {
+						if (pr.draft) return 'draft';
+						if (pr.mergeable === true) return 'mergeable';
+						if (pr.mergeable === false) return 'has conflicts';
+						return 'checking mergeability';
+					}
+
+					function renderPullRequests(message) {
+						if (!pullRequestsContainer) return;
+						pullRequestsContainer.innerHTML = '';
+						if (message.message) {
+							pullRequestsContainer.textContent = message.message;
+							return;
+						}
+						message.repos.forEach(repo => {
+							const heading = document.createElement('h4');
+							heading.textContent = repo.label;
+							heading.title = repo.repoUrl;
+							pullRequestsContainer.appendChild(heading);
+							if (repo.pullRequests.length === 0) {
+								const empty = document.createElement('div');
+								empty.textContent = 'No open pull requests.';
+								pullRequestsContainer.appendChild(empty);
+								return;
+							}
+							const ul = document.createElement('ul');
+							repo.pullRequests.forEach(pr => {
+								const li = document.createElement('li');
+								li.textContent = '#' + pr.number + ' ' + pr.title + ' ';
+								li.title = pr.body;
+								const meta = document.createElement('div');
+								meta.className = 'pr-meta' + (pr.mergeable === false ? ' pr-conflict' : '');
+								meta.textContent = pr.headBranch + ' → ' + pr.baseBranch + ' · ' + pr.author + ' · ' + describeMergeable(pr);
+								li.appendChild(meta);
+								const openButton = document.createElement('button');
+								openButton.textContent = 'Open';
+								openButton.className = 'restore-button';
+								openButton.onclick = () => {
+									vscode.postMessage({ command: 'openExternal', url: pr.url });
+								};
+								li.appendChild(openButton);
+								const mergeButton = document.createElement('button');
+								mergeButton.textContent = 'Merge…';
+								mergeButton.className = 'restore-button';
+								mergeButton.disabled = pr.draft || pr.mergeable === false;
+								mergeButton.onclick = () => {
+									vscode.postMessage({ command: 'mergePullRequest', repoUrl: repo.repoUrl, number: pr.number, folderUri: message.folderUri });
+								};
+								li.appendChild(mergeButton);
+								ul.appendChild(li);
+							});
+							pullRequestsContainer.appendChild(ul);
+						});
+					}
+
+					function requestIssues() {
+						if (issuesContainer) issuesContainer.textContent = 'Loading issues...';
+						vscode.postMessage({
+							command: 'getIssues',
+							folderUri: selectedFolderUri(),
+							repoUrl: issueRepo && issueRepo.value ? issueRepo.value : undefined,
+							label: issueLabelFilter ? issueLabelFilter.value : '',
+							assignee: issueAssigneeFilter ? issueAssigneeFilter.value : '',
+							author: issueAuthorFilter ? issueAuthorFilter.value.trim() : ''
+						});
+					}
+
+					function fillSelect(select, options, value) {
+						if (!select) return;
+						while (select.options.length > 0) select.remove(0);
+						options.forEach(([optionValue, text]) => {
+							const option = document.createElement('option');
+							option.value = optionValue;
+							option.textContent = text;
+							select.appendChild(option);
+						});
+						select.value = value || '';
+					}
+
+					// Dark text on light label colors, light text on dark ones
+					function labelTextColor(hex) {
+						const r = parseInt(hex.slice(0, 2), 16), g = parseInt(hex.slice(2, 4), 16), b = parseInt(hex.slice(4, 6), 16);
+						return (r * 299 + g * 587 + b * 114) / 1000 > 150 ? '#000000' : '#ffffff';
+					}
+
+					function renderIssues(message) {
+						if (!issuesContainer) return;
+						issuesContainer.innerHTML = '';
+						if (message.message) {
+							fillSelect(issueRepo, [], '');
+							issuesContainer.textContent = message.message;
+							return;
+						}
+						const filter = message.filter || {};
+						fillSelect(issueRepo, message.repos.map(repo => [repo.repoUrl, repo.label]), message.repoUrl);
+						fillSelect(issueLabelFilter, [['', 'Any label']].concat(message.labels.map(label => [label.name, label.name])), filter.label);
+						fillSelect(issueAssigneeFilter, [['', 'Any assignee'], ['none', 'Unassigned']].concat(message.assignees.map(login => [login, login])), filter.assignee);
+						if (issueAuthorFilter) issueAuthorFilter.value = filter.author || '';
+						if (message.issues.length === 0) {
+							issuesContainer.textContent = 'No open issues match.';
+							return;
+						}
+						const ul = document.createElement('ul');
+						message.issues.forEach(issue => {
+							const li = document.createElement('li');
+							li.textContent = '#' + issue.number + ' ' + issue.title + ' ';
+							li.title = issue.body;
+							const meta = document.createElement('div');
+							meta.className = 'pr-meta';
+							issue.labels.forEach(label => {
+								const chip = document.createElement('span');
+								chip.className = 'issue-label';
+								chip.textContent = label.name;
+								chip.title = label.description || label.name;
+								if (/^[0-9a-fA-F]{6}$/.test(label.color)) {
+									chip.style.backgroundColor = '#' + label.color;
+									chip.style.color = labelTextColor(label.color);
+								}
+								meta.appendChild(chip);
+							});
+							const people = ['by ' + issue.author];
+							if (issue.assignees.length > 0) people.push('assigned to ' + issue.assignees.join(', '));
+							meta.appendChild(document.createTextNode(people.join(' · ')));
+							li.appendChild(meta);
+							const openButton = document.createElement('button');
+							openButton.textContent = 'Open';
+							openButton.className = 'restore-button';
+							openButton.onclick = () => {
+								vscode.postMessage({ command: 'openExternal', url: issue.url });
+							};
+							li.appendChild(openButton);
+							const closeButton = document.createElement('button');
+							closeButton.textContent = 'Close…';
+							closeButton.className = 'restore-button';
+							closeButton.onclick = () => {
+								vscode.postMessage({ command: 'closeIssue', repoUrl: message.repoUrl, number: issue.number });
+							};
+							li.appendChild(closeButton);
+							ul.appendChild(li);
+						});
+						issuesContainer.appendChild(ul);
+					}
+
 					// Wait for the DOM to be fully loaded before accessing elements
 					document.addEventListener('DOMContentLoaded', () => {
 						// Get references to UI elements after DOM is loaded
+						folderGroup = document.getElementById('folderGroup');
+						folderSelect = document.getElementById('folderSelect');
+						foldersContainer = document.getElementById('foldersContainer');
 						frequencyInput = document.getElementById('frequency');
 						saveFrequencyBtn = document.getElementById('saveFrequencyBtn');
 						targetRepoInput = document.getElementById('targetRepo');
@@ -558,7 +1278,33 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						createRepoBtn = document.getElementById('createRepoBtn');
 						syncRepoBtn = document.getElementById('syncRepoBtn');
 						branchesContainer = document.getElementById('branchesContainer');
+						branchTriggerFilter = document.getElementById('branchTriggerFilter');
+						branchSort = document.getElementById('branchSort');
+						pullRequestsContainer = document.getElementById('pullRequestsContainer');
+						issuesContainer = document.getElementById('issuesContainer');
+						issueRepo = document.getElementById('issueRepo');
+						issueLabelFilter = document.getElementById('issueLabelFilter');
+						issueAssigneeFilter = document.getElementById('issueAssigneeFilter');
+						issueAuthorFilter = document.getElementById('issueAuthorFilter');
+						[issueRepo, issueLabelFilter, issueAssigneeFilter].forEach(control => {
+							if (control) control.addEventListener('change', () => {
+								// Labels and assignees belong to the repository
+								if (control === issueRepo) {
+									if (issueLabelFilter) issueLabelFilter.value = '';
+									if (issueAssigneeFilter) issueAssigneeFilter.value = '';
+								}
+								requestIssues();
+							});
+						});
+						if (issueAuthorFilter) {
+							issueAuthorFilter.addEventListener('keypress', (e) => {
+								if (e.key === 'Enter') requestIssues();
+							});
+						}
 						statusDiv = document.getElementById('status');
+						[branchTriggerFilter, branchSort].forEach(control => {
+							if (control) control.addEventListener('change', () => renderBranches(folderBackups));
+						});
 
 						createRepoModal = document.getElementById('createRepoModal');
 						newRepoNameInput = document.getElementById('newRepoNameInput');
@@ -584,6 +1330,17 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 						if(targetRepoInput) targetRepoInput.value = state.targetRepoUrl;
 
 						// Add event listeners
+						if(folderSelect) {
+							folderSelect.addEventListener('change', () => {
+								state.folderUri = folderSelect.value;
+								vscode.setState(state);
+								renderFolders();
+								vscode.postMessage({ command: 'getPullRequests', folderUri: selectedFolderUri() });
+								if (issueRepo) issueRepo.value = '';
+								requestIssues();
+							});
+						}
+
 						if(saveFrequencyBtn) {
 							saveFrequencyBtn.addEventListener('click', () => {
 								if(frequencyInput) {
@@ -592,10 +1349,25 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 							});
 						}
 
+						const saveTriggersBtn = document.getElementById('saveTriggersBtn');
+						if(saveTriggersBtn) {
+							saveTriggersBtn.addEventListener('click', () => {
+								vscode.postMessage({
+									command: 'saveTriggers',
+									saveEnabled: document.getElementById('triggerSaveEnabled').checked,
+									saveCount: document.getElementById('triggerSaveCount').value,
+									idleEnabled: document.getElementById('triggerIdleEnabled').checked,
+									editMinutes: document.getElementById('triggerEditMinutes').value,
+									idleMinutes: document.getElementById('triggerIdleMinutes').value,
+									windowBlurEnabled: document.getElementById('triggerBlurEnabled').checked
+								});
+							});
+						}
+
 						if(saveTargetRepoBtn) {
 							saveTargetRepoBtn.addEventListener('click', () => {
 								if(targetRepoInput) {
-									vscode.postMessage({ command: 'saveTargetRepo', text: targetRepoInput.value });
+									vscode.postMessage({ command: 'saveTargetRepo', text: targetRepoInput.value, folderUri: selectedFolderUri() });
 								}
 							});
 						}
@@ -612,7 +1384,7 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 							confirmCreateRepoBtn.addEventListener('click', () => {
 								const repoName = newRepoNameInput ? newRepoNameInput.value : '';
 								if (repoName && repoName.trim() !== '') {
-									vscode.postMessage({ command: 'createRepo', name: repoName.trim() });
+									vscode.postMessage({ command: 'createRepo', name: repoName.trim(), folderUri: selectedFolderUri() });
 									if(statusDiv) statusDiv.textContent = 'Creating repository...';
 									if(createRepoModal) createRepoModal.style.display = 'none';
 								} else {
@@ -630,25 +1402,54 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 
 						if(syncRepoBtn) {
 							syncRepoBtn.addEventListener('click', () => {
-								vscode.postMessage({ command: 'syncRepo' });
+								vscode.postMessage({ command: 'syncRepo', folderUri: selectedFolderUri() });
 								if(statusDiv) statusDiv.textContent = 'Syncing...';
 							});
 						}
 
 						if(backupNowBtn) {
 							backupNowBtn.addEventListener('click', () => {
-								vscode.postMessage({ command: 'backupNow' });
+								vscode.postMessage({ command: 'backupNow', folderUri: selectedFolderUri() });
 								if(statusDiv) statusDiv.textContent = 'Starting manual backup...';
 							});
 						}
 
 						if(pushCurrentBranchBtn) {
 							pushCurrentBranchBtn.addEventListener('click', () => {
-								vscode.postMessage({ command: 'pushCurrentBranch' });
+								vscode.postMessage({ command: 'pushCurrentBranch', folderUri: selectedFolderUri() });
 								if(statusDiv) statusDiv.textContent = 'Pushing current branch...';
 							});
 						}
 
+						const newPullRequestBtn = document.getElementById('newPullRequestBtn');
+						if (newPullRequestBtn) {
+							newPullRequestBtn.addEventListener('click', () => {
+								vscode.postMessage({ command: 'createPullRequest', folderUri: selectedFolderUri() });
+							});
+						}
+
+						const refreshPullRequestsBtn = document.getElementById('refreshPullRequestsBtn');
+						if (refreshPullRequestsBtn) {
+							refreshPullRequestsBtn.addEventListener('click', () => {
+								if (pullRequestsContainer) pullRequestsContainer.textContent = 'Loading pull requests...';
+								vscode.postMessage({ command: 'getPullRequests', folderUri: selectedFolderUri() });
+							});
+						}
+
+						const newIssueBtn = document.getElementById('newIssueBtn');
+						if (newIssueBtn) {
+							newIssueBtn.addEventListener('click', () => {
+								if (issueRepo && issueRepo.value) {
+									vscode.postMessage({ command: 'createIssue', repoUrl: issueRepo.value });
+								}
+							});
+						}
+
+						const refreshIssuesBtn = document.getElementById('refreshIssuesBtn');
+						if (refreshIssuesBtn) {
+							refreshIssuesBtn.addEventListener('click', requestIssues);
+						}
+
 						// GitHub Connect button event listener
 						if (connectBtn) {
 							connectBtn.addEventListener('click', () => {
@@ -731,27 +1532,12 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 							state.targetRepoUrl = message.newUrl;
 							vscode.setState(state);
 						} else if (message.command === 'updateBranches') {
-							if(branchesContainer) branchesContainer.innerHTML = '';
-							if (message.branches && message.branches.length > 0) {
-								const ul = document.createElement('ul');
-								message.branches.forEach(branch => {
-									const li = document.createElement('li');
-									li.textContent = branch + ' ';
-									const restoreButton = document.createElement('button');
-									restoreButton.textContent = 'Restore';
-									restoreButton.className = 'restore-button';
-									restoreButton.onclick = () => {
-										if(statusDiv) statusDiv.textContent = 'Requesting restore for ' + branch + '...';
-										vscode.postMessage({ command: 'requestRestore', branchName: branch });
-									};
-									li.appendChild(restoreButton);
-									ul.appendChild(li);
-								});
-								if(branchesContainer) branchesContainer.appendChild(ul);
-								if(statusDiv) statusDiv.textContent = 'Branches loaded.';
-							} else {
-								if(branchesContainer) branchesContainer.textContent = 'No backup branches found or target repo not set/accessible.';
-							}
+							folderBackups = message.folders || [];
+							renderBranches(folderBackups);
+						} else if (message.command === 'updatePullRequests') {
+							renderPullRequests(message);
+						} else if (message.command === 'updateIssues') {
+							renderIssues(message);
 						} else if (message.command === 'updateStatus') {
 							if(statusDiv) statusDiv.textContent = message.text;
 						} else if (message.command === 'updateState') {
@@ -759,12 +1545,18 @@ export class Version0WebviewProvider implements vscode.WebviewViewProvider {
 								if(frequencyInput) frequencyInput.value = message.frequency;
 								if(state) state.frequency = message.frequency;
 							}
-							if(message.targetRepoUrl) {
-								if(targetRepoInput) targetRepoInput.value = message.targetRepoUrl;
-								if(state) state.targetRepoUrl = message.targetRepoUrl;
+							if(message.triggers) {
+								renderTriggers(message.triggers);
+							}
+							if(message.folders) {
+								folders = message.folders;
+								renderFolders();
+								if(state && targetRepoInput) state.targetRepoUrl = targetRepoInput.value;
 							}
 							if(state) vscode.setState(state);
-							if (targetRepoInput && targetRepoInput.value) {
+							vscode.postMessage({ command: 'getPullRequests', folderUri: selectedFolderUri() });
+							requestIssues();
+							if (folders.some(folder => folder.targetRepoUrl)) {
 								vscode.postMessage({ command: 'getBranches' });
 							} else {
 								if(branchesContainer) branchesContainer.textContent = 'Set target repository URL to see branches.';
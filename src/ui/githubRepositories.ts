@@ -0,0 +1,30 @@
+import * as vscode from 'vscode';
+import { BackupManager } from '../services/backupManager';
+import { GithubService } from '../services/githubService';
+import { isSameRepository } from '../utils/repoUrl';
+
+export interface IFolderGitHubRepository {
+	label: 'Backup target' | 'origin';
+	repoUrl: string;
+}
+
+/**
+ * The GitHub repositories a workspace folder works with: its backup target, when that is
+ * on GitHub, and its `origin` remote, when that is a different GitHub repository.
+ */
+export async function getFolderGitHubRepositories(
+	backupManager: BackupManager,
+	githubService: GithubService,
+	folder: vscode.WorkspaceFolder
+): Promise<IFolderGitHubRepository[]> {
+	const repositories: IFolderGitHubRepository[] = [];
+	const target = backupManager.getBackupTarget(folder);
+	if (target?.kind === 'github') {
+		repositories.push({ label: 'Backup target', repoUrl: target.url });
+	}
+	const originUrl = await backupManager.getOriginUrl(folder);
+	if (originUrl && githubService.isGitHubRepoUrl(originUrl) && !(target && isSameRepository(originUrl, target.url))) {
+		repositories.push({ label: 'origin', repoUrl: originUrl });
+	}
+	return repositories;
+}
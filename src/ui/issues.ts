@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { GithubService } from '../services/githubService';
+import { IGitHubIssue } from '../types/interfaces';
+
+/**
+ * Create an issue: title, optional description, then labels and assignees picked from
+ * the repository's own. Returns the new issue, or undefined when cancelled.
+ */
+export async function createIssue(githubService: GithubService, repoUrl: string): Promise<IGitHubIssue | undefined> {
+	const title = await vscode.window.showInputBox({ prompt: 'Issue title', placeHolder: 'e.g. Login fails after session timeout' });
+	if (!title) {
+		return undefined;
+	}
+	const body = await vscode.window.showInputBox({ prompt: 'Issue description (optional)' });
+	if (body === undefined) {
+		return undefined;
+	}
+
+	const [labels, assignees] = await Promise.all([
+		githubService.getRepositoryLabels(repoUrl),
+		githubService.getAssignableUsers(repoUrl)
+	]);
+	let pickedLabels: string[] = [];
+	if (labels.length > 0) {
+		const picked = await vscode.window.showQuickPick(labels.map(label => ({
+			label: label.name,
+			description: label.description || undefined
+		})), { canPickMany: true, placeHolder: 'Labels (optional)' });
+		if (!picked) {
+			return undefined;
+		}
+		pickedLabels = picked.map(item => item.label);
+	}
+	let pickedAssignees: string[] = [];
+	if (assignees.length > 0) {
+		const picked = await vscode.window.showQuickPick(assignees.map(login => ({ label: login })), {
+			canPickMany: true,
+			placeHolder: 'Assignees (optional)'
+		});
+		if (!picked) {
+			return undefined;
+		}
+		pickedAssignees = picked.map(item => item.label);
+	}
+
+	const issue = await githubService.createIssue(repoUrl, title, body, pickedLabels, pickedAssignees);
+	if (issue) {
+		vscode.window.showInformationMessage(`Version0: Created issue #${issue.number}.`, 'Open on GitHub').then(choice => {
+			if (choice) {
+				vscode.env.openExternal(vscode.Uri.parse(issue.url));
+			}
+		});
+	}
+	return issue || undefined;
+}
+
+/**
+ * Close an issue after confirmation. Returns true when it was closed.
+ */
+export async function closeIssue(githubService: GithubService, repoUrl: string, issue: IGitHubIssue): Promise<boolean> {
+	const confirmation = await vscode.window.showWarningMessage(
+		`Close issue #${issue.number} '${issue.title}'?`,
+		{ modal: true },
+		'Close Issue'
+	);
+	if (confirmation !== 'Close Issue') {
+		return false;
+	}
+	await githubService.closeIssue(repoUrl, issue.number);
+	vscode.window.showInformationMessage(`Version0: Closed issue #${issue.number}.`);
+	return true;
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import moment from 'moment';
+import { BackupManager } from '../services/backupManager';
+import { GithubService } from '../services/githubService';
+import { IBackupInfo, IGitHubPullRequest } from '../types/interfaces';
+
+type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+const MERGE_METHODS: { label: string; method: MergeMethod; detail: string }[] = [
+	{ label: 'Create a Merge Commit', method: 'merge', detail: 'All commits are added to the base branch with a merge commit' },
+	{ label: 'Squash and Merge', method: 'squash', detail: 'The changes are combined into one commit on the base branch' },
+	{ label: 'Rebase and Merge', method: 'rebase', detail: 'The commits are replayed onto the base branch' }
+];
+
+function describeBackup(backup: IBackupInfo): string {
+	const lines = [
+		`Opened from the Version0 backup \`${backup.branchName}\`.`,
+		'',
+		`- Created: ${moment(backup.timestamp).format('YYYY-MM-DD HH:mm:ss')}`,
+		`- Source branch: ${backup.sourceBranch || 'unknown'}${backup.headSha ? ` @ ${backup.headSha.slice(0, 7)}` : ''}`,
+		`- Files changed: ${backup.fileCount}${backup.insertions !== undefined ? ` (+${backup.insertions} -${backup.deletions ?? 0})` : ''}`
+	];
+	if (backup.note) {
+		lines.push(`- Note: ${backup.note}`);
+	}
+	return lines.join('\n') + '\n';
+}
+
+/**
+ * Open a pull request in the folder's GitHub target from a backup branch to a base branch
+ * the user picks. Without `branchName` the user picks the backup as well. Returns the new
+ * pull request, or undefined when cancelled.
+ */
+export async function createPullRequestFromBackup(
+	backupManager: BackupManager,
+	githubService: GithubService,
+	folder: vscode.WorkspaceFolder,
+	branchName?: string
+): Promise<IGitHubPullRequest | undefined> {
+	const target = backupManager.getBackupTarget(folder);
+	if (!target || target.kind !== 'github') {
+		vscode.window.showInformationMessage(`Version0: Pull requests need a GitHub target repository for '${folder.name}'.`);
+		return undefined;
+	}
+
+	const backups = await githubService.listBackups(target.url);
+	let backup = branchName ? backups.find(b => b.branchName === branchName) : undefined;
+	if (!backup) {
+		const picked = await vscode.window.showQuickPick(backups.map(b => ({
+			label: `v${b.version}`,
+			description: [moment(b.timestamp).format('YYYY-MM-DD HH:mm'), b.note].filter(Boolean).join(' · '),
+			detail: b.branchName,
+			backup: b
+		})), { placeHolder: 'Select the backup to open a pull request from' });
+		if (!picked) {
+			return undefined;
+		}
+		backup = picked.backup;
+	}
+
+	// Backup branches make poor bases; offer the other branches, the default branch first
+	const backupBranches = new Set(backups.map(b => b.branchName));
+	const defaultBranch = await githubService.getDefaultBranch(target.url).catch(() => undefined);
+	const bases = (await githubService.getBackupBranchesFromTargetUrl(target.url))
+		.filter(name => !backupBranches.has(name))
+		.sort((a, b) => Number(b === defaultBranch) - Number(a === defaultBranch));
+	if (bases.length === 0) {
+		vscode.window.showInformationMessage('Version0: The target repository has no branch besides backups to open a pull request against.');
+		return undefined;
+	}
+	const base = await vscode.window.showQuickPick(bases.map(name => ({
+		label: name,
+		description: name === defaultBranch ? 'default branch' : undefined
+	})), { placeHolder: `Merge '${backup.branchName}' into...` });
+	if (!base) {
+		return undefined;
+	}
+
+	const title = await vscode.window.showInputBox({
+		prompt: 'Pull request title',
+		value: backup.note || `Backup v${backup.version}`
+	});
+	if (!title) {
+		return undefined;
+	}
+
+	const pullRequest = await githubService.createPullRequest(target.url, title, describeBackup(backup), backup.branchName, base.label);
+	if (pullRequest) {
+		vscode.window.showInformationMessage(`Version0: Opened pull request #${pullRequest.number}.`, 'Open on GitHub').then(choice => {
+			if (choice) {
+				vscode.env.openExternal(vscode.Uri.parse(pullRequest.url));
+			}
+		});
+	}
+	return pullRequest || undefined;
+}
+
+/**
+ * Merge a pull request with a method the user picks. Returns true when it was merged.
+ */
+export async function mergePullRequest(githubService: GithubService, repoUrl: string, pullRequest: IGitHubPullRequest): Promise<boolean> {
+	const picked = await vscode.window.showQuickPick(MERGE_METHODS, {
+		placeHolder: `Merge #${pullRequest.number} '${pullRequest.title}' into ${pullRequest.baseBranch}`
+	});
+	if (!picked) {
+		return false;
+	}
+	const confirmation = await vscode.window.showWarningMessage(
+		`${picked.label}: merge pull request #${pullRequest.number} into '${pullRequest.baseBranch}'?`,
+		{ modal: true },
+		'Merge'
+	);
+	if (confirmation !== 'Merge') {
+		return false;
+	}
+	await githubService.mergePullRequest(repoUrl, pullRequest.number, picked.method);
+	vscode.window.showInformationMessage(`Version0: Merged pull request #${pullRequest.number}.`);
+	return true;
+}
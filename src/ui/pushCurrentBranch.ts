@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { BackupManager } from '../services/backupManager';
+import { GithubService } from '../services/githubService';
+import { IGitHubPullRequest, IPushOptions, IPushResult } from '../types/interfaces';
+
+interface IPushDestination {
+	label: string;
+	description: string;
+	destination: IPushOptions['destination'];
+	/** How messages refer to the destination */
+	name: string;
+}
+
+/**
+ * Push the checked out branch of a folder: offer to commit uncommitted changes, let the user
+ * pick the backup target or `origin`, then open a pull request against the destination's
+ * default branch. Returns the pull request, or undefined when none was opened.
+ */
+export async function pushCurrentBranch(
+	backupManager: BackupManager,
+	githubService: GithubService,
+	folder: vscode.WorkspaceFolder
+): Promise<IGitHubPullRequest | undefined> {
+	const state = await backupManager.getWorkingTreeState(folder);
+	if (!state.branch) {
+		vscode.window.showErrorMessage(`Version0: '${folder.name}' is not on a branch. Check out a branch before pushing.`);
+		return undefined;
+	}
+
+	let commitMessage: string | undefined;
+	if (state.changedFiles > 0) {
+		const choice = await vscode.window.showWarningMessage(
+			`'${folder.name}' has ${state.changedFiles} uncommitted change(s).`,
+			{ modal: true, detail: `Commit them to '${state.branch}' before pushing, or push the branch as last committed.` },
+			'Commit and Push',
+			'Push without Committing'
+		);
+		if (!choice) {
+			return undefined;
+		}
+		if (choice === 'Commit and Push') {
+			commitMessage = await vscode.window.showInputBox({
+				prompt: `Commit message for '${state.branch}'`,
+				validateInput: value => value.trim() ? undefined : 'Enter a commit message'
+			});
+			if (!commitMessage) {
+				return undefined;
+			}
+		}
+	}
+
+	const destinations: IPushDestination[] = [];
+	const target = backupManager.getBackupTarget(folder);
+	if (target) {
+		destinations.push({ label: 'Backup target', description: target.url, destination: 'backup', name: 'the backup target' });
+	}
+	const originUrl = await backupManager.getOriginUrl(folder);
+	if (originUrl) {
+		destinations.push({ label: 'origin', description: originUrl, destination: 'origin', name: 'origin' });
+	}
+	if (destinations.length === 0) {
+		vscode.window.showInformationMessage(`Version0: '${folder.name}' has neither a target repository nor an 'origin' remote to push to.`);
+		return undefined;
+	}
+	const destination = destinations.length === 1
+		? destinations[0]
+		: await vscode.window.showQuickPick(destinations, { placeHolder: `Push '${state.branch}' to...` });
+	if (!destination) {
+		return undefined;
+	}
+
+	const result = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: `Version0: Pushing '${state.branch}' to ${destination.name}...`
+	}, () => backupManager.pushCurrentState(folder, { destination: destination.destination, commitMessage }));
+	if (!result) {
+		return undefined;
+	}
+
+	if (!githubService.isGitHubRepoUrl(result.remoteUrl)) {
+		const actions = result.pullRequestUrl ? ['Open Pull Request Page'] : [];
+		vscode.window.showInformationMessage(`Version0: Pushed '${result.branchName}' to ${destination.name}.`, ...actions).then(choice => {
+			if (choice && result.pullRequestUrl) {
+				vscode.env.openExternal(vscode.Uri.parse(result.pullRequestUrl));
+			}
+		});
+		return undefined;
+	}
+	return openPullRequest(githubService, result, destination.name);
+}
+
+async function openPullRequest(githubService: GithubService, result: IPushResult, destinationName: string): Promise<IGitHubPullRequest | undefined> {
+	const defaultBranch = await githubService.getDefaultBranch(result.remoteUrl);
+	if (result.branchName === defaultBranch) {
+		vscode.window.showInformationMessage(`Version0: Pushed '${result.branchName}' to ${destinationName}. It is the default branch, so there is no pull request to open.`);
+		return undefined;
+	}
+
+	// A push to a branch with an open pull request updates that pull request
+	const existing = (await githubService.getPullRequests(result.remoteUrl))
+		.find(pr => pr.headBranch === result.branchName && pr.baseBranch === defaultBranch);
+	if (existing) {
+		showPullRequestMessage(`Version0: Pushed '${result.branchName}' to ${destinationName}, updating pull request #${existing.number}.`, existing);
+		return existing;
+	}
+
+	const choice = await vscode.window.showInformationMessage(
+		`Version0: Pushed '${result.branchName}' to ${destinationName}. Open a pull request into '${defaultBranch}'?`,
+		'Create Pull Request'
+	);
+	if (!choice) {
+		return undefined;
+	}
+	const title = await vscode.window.showInputBox({ prompt: 'Pull request title', value: result.headSubject });
+	if (!title) {
+		return undefined;
+	}
+	const body = await vscode.window.showInputBox({ prompt: 'Pull request description (optional)' });
+	if (body === undefined) {
+		return undefined;
+	}
+
+	const pullRequest = await githubService.createPullRequest(result.remoteUrl, title, body, result.branchName, defaultBranch);
+	if (pullRequest) {
+		showPullRequestMessage(`Version0: Opened pull request #${pullRequest.number}.`, pullRequest);
+	}
+	return pullRequest || undefined;
+}
+
+function showPullRequestMessage(message: string, pullRequest: IGitHubPullRequest): void {
+	vscode.window.showInformationMessage(message, 'Open on GitHub').then(choice => {
+		if (choice) {
+			vscode.env.openExternal(vscode.Uri.parse(pullRequest.url));
+		}
+	});
+}
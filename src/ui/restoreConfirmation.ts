@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { BackupManager } from '../services/backupManager';
+import { IRestoreResult } from '../types/interfaces';
+
+const MAX_LISTED_FILES = 10;
+
+function listFiles(files: string[]): string {
+	const listed = files.slice(0, MAX_LISTED_FILES).map(file => `  ${file}`);
+	if (files.length > MAX_LISTED_FILES) {
+		listed.push(`  …and ${files.length - MAX_LISTED_FILES} more`);
+	}
+	return listed.join('\n');
+}
+
+/**
+ * Run a restore dry-run and ask the user to confirm, listing the files that would be
+ * overwritten and the local changes that would conflict. Returns the branch to restore,
+ * or undefined when the user cancels.
+ *
+ * `branchName` may be omitted to preview the folder's latest backup.
+ */
+export async function confirmRestore(
+	backupManager: BackupManager,
+	folder: vscode.WorkspaceFolder,
+	branchName?: string
+): Promise<string | undefined> {
+	const preview: IRestoreResult = await vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: `Version0: Checking what a restore of '${folder.name}' would change...`
+	}, () => branchName
+		? backupManager.restoreFromBackup(branchName, folder, true)
+		: backupManager.restoreLatestBackup(folder, true));
+	const target = preview.branchName;
+	if (!target) {
+		return undefined;
+	}
+
+	const details: string[] = [];
+	if (preview.overwrittenFiles.length === 0) {
+		details.push('The working tree already matches this backup.');
+	} else {
+		details.push(`${preview.overwrittenFiles.length} file(s) will be overwritten:`, listFiles(preview.overwrittenFiles));
+	}
+	if (preview.hasConflicts) {
+		details.push('', `${preview.conflictingFiles.length} local change(s) are likely to conflict when your stashed changes are re-applied:`,
+			listFiles(preview.conflictingFiles));
+	}
+
+	const message = preview.hasConflicts
+		? `Restore '${folder.name}' to backup branch '${target}'? Some local changes will conflict.`
+		: `Restore '${folder.name}' to backup branch '${target}'? Local changes are stashed and re-applied.`;
+	const confirmation = await vscode.window.showWarningMessage(message, { modal: true, detail: details.join('\n') }, 'Restore');
+	return confirmation === 'Restore' ? target : undefined;
+}
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { SecretScanner } from '../services/secretScanner';
+import { ISecretFinding, SecretScanOperation } from '../types/interfaces';
+
+function location(finding: ISecretFinding): string {
+	return finding.line !== undefined ? `${finding.path}:${finding.line}` : finding.path;
+}
+
+function formatReport(folder: vscode.WorkspaceFolder, findings: ISecretFinding[], blocked: boolean, operation: SecretScanOperation): string {
+	let outcome = blocked
+		? `The backup was **not pushed**: ${findings.length} possible secret(s) were found in changed files.`
+		: `${findings.length} possible secret(s) were redacted from the backup. Files flagged by name were left out.`;
+	if (operation === 'push') {
+		outcome = `The branch was **not pushed** to the backup target: ${findings.length} possible secret(s) were found in its unpublished commits.`;
+	}
+	const lines = [
+		`# Secret scan of '${folder.name}'`,
+		'',
+		outcome,
+		'',
+		'Remove the secrets (or add the files to `.gitignore`), or allow-list findings that are not secrets with "Allow-list Findings...".',
+		'',
+		'| Location | Finding | Excerpt |',
+		'|----------|---------|---------|'
+	];
+	for (const finding of findings) {
+		lines.push(`| \`${location(finding)}\` | ${finding.description} | \`${finding.preview.replace(/[|`]/g, '')}\` |`);
+	}
+	return lines.join('\n') + '\n';
+}
+
+async function allowFindings(scanner: SecretScanner, folder: vscode.WorkspaceFolder, findings: ISecretFinding[]): Promise<void> {
+	const picked = await vscode.window.showQuickPick(findings.map(finding => ({
+		label: location(finding),
+		description: finding.description,
+		detail: finding.preview,
+		finding
+	})), {
+		canPickMany: true,
+		placeHolder: 'Select the findings that are not secrets. They will no longer block or be redacted from backups.'
+	});
+	if (!picked || picked.length === 0) {
+		return;
+	}
+	await scanner.allow(folder, picked.map(item => item.finding));
+	vscode.window.showInformationMessage(`Version0: Allow-listed ${picked.length} finding(s) in '${folder.name}'.`);
+}
+
+/**
+ * Tell the user a backup or branch push contained possible secrets and offer the findings
+ * report and per-finding allow-listing. `blocked` is true when nothing was pushed.
+ */
+export async function showSecretFindings(
+	scanner: SecretScanner,
+	folder: vscode.WorkspaceFolder,
+	findings: ISecretFinding[],
+	blocked: boolean,
+	operation: SecretScanOperation = 'backup'
+): Promise<void> {
+	let message = blocked
+		? `Version0: Backup of '${folder.name}' was blocked: ${findings.length} possible secret(s) found.`
+		: `Version0: Redacted ${findings.length} possible secret(s) from the backup of '${folder.name}'.`;
+	if (operation === 'push') {
+		message = `Version0: Push of '${folder.name}' to the backup target was blocked: ${findings.length} possible secret(s) found.`;
+	}
+	let choice = await vscode.window.showWarningMessage(message, 'Show Report', 'Allow-list Findings...');
+	if (choice === 'Show Report') {
+		const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatReport(folder, findings, blocked, operation) });
+		await vscode.window.showTextDocument(document, { preview: true });
+		choice = await vscode.window.showWarningMessage(message, 'Allow-list Findings...');
+	}
+	if (choice === 'Allow-list Findings...') {
+		await allowFindings(scanner, folder, findings);
+	}
+}
@@ -0,0 +1,212 @@
+import moment from 'moment';
+import { IBackupBranchNaming, VersionScheme } from '../types/interfaces';
+
+export const BACKUP_TIMESTAMP_FORMAT = 'YYYY-MM-DD_HH-mm-ss';
+export const DEFAULT_BACKUP_BRANCH_TEMPLATE = 'v{version}/{date}';
+
+// Names of backups made before the template was configurable: vX.Y/YYYY-MM-DD_HH-mm-ss,
+// optionally followed by the -NNN suffix added on name collisions
+const LEGACY_BRANCH_PATTERN = /^v(\d+\.\d+)\/(\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2})(?:-\d+)?$/;
+
+const VERSION_PATTERNS: Record<VersionScheme, RegExp> = {
+  majorMinor: /^\d+\.\d+$/,
+  date: /^\d{4}\.\d{2}\.\d{2}\.\d+$/,
+  counter: /^\d+$/
+};
+
+// What each placeholder matches when a branch name is parsed
+const PLACEHOLDER_PATTERNS: Record<string, string> = {
+  version: '', // Depends on the version scheme
+  date: '\\d{4}-\\d{2}-\\d{2}_\\d{2}-\\d{2}-\\d{2}',
+  branch: '.+?',
+  user: '[^/]+?',
+  host: '[^/]+?'
+};
+
+const PLACEHOLDER = /\{([a-z]+)\}/g;
+
+export interface IBranchNameValues {
+  version: string;
+  date: Date;
+  branch?: string;
+  user?: string;
+  host?: string;
+}
+
+export interface IParsedBackupBranch {
+  name: string;
+  version: string;
+  timestamp: Date;
+}
+
+/**
+ * Compare two versions of the same scheme numerically, part by part.
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.').map(part => parseInt(part, 10));
+  const bParts = b.split('.').map(part => parseInt(part, 10));
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Make a value usable inside a ref name; `/` is only kept where it may separate components
+function sanitizeRefPart(value: string, allowSlash: boolean): string {
+  const cleaned = value
+    .replace(allowSlash ? /[^A-Za-z0-9._/-]+/g : /[^A-Za-z0-9._-]+/g, '-')
+    .replace(/\.{2,}/g, '.')
+    .split('/')
+    .map(component => component.replace(/^[.-]+/, '').replace(/(\.lock)?\.*$/, ''))
+    .filter(Boolean)
+    .join('/');
+  return cleaned || 'unknown';
+}
+
+// The subset of `git check-ref-format` rules a formatted name can break
+function isValidBranchName(name: string): boolean {
+  return name.length > 0 &&
+    !/[\s~^:?*[\\]|\.\.|@\{|\/\/|^\/|\/$|\.$/.test(name) &&
+    name.split('/').every(component => !component.startsWith('.') && !component.endsWith('.lock'));
+}
+
+/**
+ * Names backup branches from a template such as `v{version}/{date}` and parses such names
+ * back into their version and time, so listing and retention work with any template.
+ * Placeholders: `{version}`, `{date}`, `{branch}` (the source branch), `{user}` and `{host}`.
+ * Branches named before the template was configurable are still recognized.
+ */
+export class BackupBranchNaming {
+  private template: string;
+  private scheme: VersionScheme;
+  private pattern: RegExp;
+  private groups: string[] = [];
+
+  constructor(settings: IBackupBranchNaming) {
+    const error = BackupBranchNaming.validateTemplate(settings.template);
+    if (error) {
+      throw new Error(`Invalid backup branch template '${settings.template}': ${error}`);
+    }
+    this.template = settings.template;
+    this.scheme = settings.versionScheme;
+
+    let source = '';
+    let lastIndex = 0;
+    for (const match of settings.template.matchAll(PLACEHOLDER)) {
+      const index = match.index || 0;
+      source += escapeRegExp(settings.template.slice(lastIndex, index));
+      source += `(${match[1] === 'version' ? VERSION_PATTERNS[this.scheme].source.slice(1, -1) : PLACEHOLDER_PATTERNS[match[1]]})`;
+      this.groups.push(match[1]);
+      lastIndex = index + match[0].length;
+    }
+    source += escapeRegExp(settings.template.slice(lastIndex));
+    this.pattern = new RegExp(`^${source}(?:-\\d+)?$`);
+  }
+
+  /**
+   * Why `template` cannot be used, or undefined when it can. A template needs `{version}`
+   * and `{date}`, which number and order backups, and may use each placeholder once.
+   */
+  public static validateTemplate(template: string): string | undefined {
+    const placeholders = Array.from(template.matchAll(PLACEHOLDER), match => match[1]);
+    const unknown = placeholders.find(name => !(name in PLACEHOLDER_PATTERNS));
+    if (unknown) {
+      return `unknown placeholder {${unknown}}`;
+    }
+    const missing = ['version', 'date'].find(name => !placeholders.includes(name));
+    if (missing) {
+      return `the {${missing}} placeholder is required`;
+    }
+    if (new Set(placeholders).size !== placeholders.length) {
+      return 'each placeholder can only be used once';
+    }
+    const sample = template.replace(PLACEHOLDER, 'x');
+    if (/[{}]/.test(sample) || !isValidBranchName(sample)) {
+      return 'the result is not a valid branch name';
+    }
+    return undefined;
+  }
+
+  /**
+   * Branch name for a new backup.
+   */
+  public format(values: IBranchNameValues): string {
+    return this.template.replace(PLACEHOLDER, (_, name: string) => {
+      switch (name) {
+        case 'version': return values.version;
+        case 'date': return moment(values.date).format(BACKUP_TIMESTAMP_FORMAT);
+        case 'branch': return sanitizeRefPart(values.branch || 'detached', true);
+        case 'user': return sanitizeRefPart(values.user || 'unknown', false);
+        default: return sanitizeRefPart(values.host || 'unknown', false);
+      }
+    });
+  }
+
+  /**
+   * Parse a backup branch name. Returns undefined for any branch that follows neither
+   * the template nor the original Version0 naming scheme.
+   */
+  public parse(name: string): IParsedBackupBranch | undefined {
+    const match = name.match(this.pattern);
+    if (match) {
+      const time = moment(match[this.groups.indexOf('date') + 1], BACKUP_TIMESTAMP_FORMAT, true);
+      if (time.isValid()) {
+        return { name, version: match[this.groups.indexOf('version') + 1], timestamp: time.toDate() };
+      }
+    }
+    return parseBackupBranchName(name);
+  }
+
+  /**
+   * The version following the highest of `existing` in this scheme. Versions of other
+   * schemes are ignored, so switching schemes starts a new sequence.
+   */
+  public nextVersion(existing: string[], now: Date = new Date()): string {
+    const own = existing.filter(version => VERSION_PATTERNS[this.scheme].test(version));
+    switch (this.scheme) {
+      case 'counter': {
+        const highest = own.reduce((max, version) => Math.max(max, parseInt(version, 10)), 0);
+        return `${highest + 1}`;
+      }
+      case 'date': {
+        // YYYY.MM.DD.N, where N counts the backups of the day
+        const day = moment(now).format('YYYY.MM.DD');
+        const highest = own
+          .filter(version => version.startsWith(`${day}.`))
+          .reduce((max, version) => Math.max(max, parseInt(version.slice(day.length + 1), 10)), 0);
+        return `${day}.${highest + 1}`;
+      }
+      default: {
+        const highest = own.sort(compareVersions).pop();
+        if (!highest) {
+          return '1.0';
+        }
+        const [major, minor] = highest.split('.').map(part => parseInt(part, 10));
+        return `${major}.${minor + 1}`;
+      }
+    }
+  }
+}
+
+/**
+ * Parse a branch name in the original Version0 naming scheme, `vX.Y/<date>`. Returns
+ * undefined for any other branch.
+ */
+export function parseBackupBranchName(name: string): IParsedBackupBranch | undefined {
+  const match = name.match(LEGACY_BRANCH_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const time = moment(match[2], BACKUP_TIMESTAMP_FORMAT, true);
+  if (!time.isValid()) {
+    return undefined;
+  }
+  return { name, version: match[1], timestamp: time.toDate() };
+}
@@ -0,0 +1,54 @@
+import ignore, { Ignore } from 'ignore';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { IBackupFilterSettings } from '../types/interfaces';
+
+export const BACKUP_IGNORE_FILE = '.version0ignore';
+
+/**
+ * Decides which files a backup contains, on top of git's own ignore rules. Rules come from
+ * `version0.backup.exclude`, the folder's `.version0ignore` (gitignore syntax) and
+ * `version0.backup.include`, in that order of precedence. A path whose last matching rule
+ * is a negation (`!pattern`, or any include setting) is force-included, even when git
+ * ignores it.
+ */
+export class BackupFilter {
+  private rules: Ignore;
+  private hasNegations: boolean;
+
+  private constructor(patterns: string[]) {
+    this.rules = ignore().add(patterns);
+    this.hasNegations = patterns.some(pattern => pattern.trim().startsWith('!'));
+  }
+
+  /**
+   * Load the rules for a workspace folder. A missing `.version0ignore` is not an error.
+   */
+  public static async load(workspaceRoot: string, settings: IBackupFilterSettings): Promise<BackupFilter> {
+    const ignoreFile = await fs.readFile(path.join(workspaceRoot, BACKUP_IGNORE_FILE), 'utf8').catch(() => '');
+    return new BackupFilter([
+      ...settings.exclude,
+      ...ignoreFile.split(/\r?\n/),
+      ...settings.include.map(pattern => `!${pattern.replace(/^!/, '')}`)
+    ]);
+  }
+
+  /** True when some rule can force-include git-ignored files */
+  public get hasForcedIncludes(): boolean {
+    return this.hasNegations;
+  }
+
+  /**
+   * Whether `filePath` (relative to the folder, with forward slashes) is left out of backups.
+   */
+  public isExcluded(filePath: string): boolean {
+    return this.rules.test(filePath).ignored;
+  }
+
+  /**
+   * Whether `filePath` is backed up even if git ignores it.
+   */
+  public isForceIncluded(filePath: string): boolean {
+    return this.rules.test(filePath).unignored;
+  }
+}
@@ -0,0 +1,139 @@
+import { IBackupInfo, IBackupMetadata } from '../types/interfaces';
+import { parseBackupBranchName } from './backupBranch';
+
+// Trailer keys, in the order they are written
+const TRAILERS = {
+  version: 'Version0-Version',
+  createdAt: 'Version0-Created',
+  trigger: 'Version0-Trigger',
+  sourceBranch: 'Version0-Source-Branch',
+  headSha: 'Version0-Source-Head',
+  hostname: 'Version0-Host',
+  changedFiles: 'Version0-Changed-Files',
+  diffstat: 'Version0-Diffstat',
+  note: 'Version0-Note',
+  redacted: 'Version0-Redacted',
+  lfsFiles: 'Version0-LFS-Files',
+  skippedLargeFiles: 'Version0-Skipped-Large-Files',
+  encryption: 'Version0-Encryption'
+} as const;
+
+const TRAILER_LINE_PATTERN = /^(Version0-[A-Za-z-]+): (.*)$/;
+// +insertions -deletions
+const DIFFSTAT_PATTERN = /^\+(\d+) -(\d+)$/;
+
+// Trailer values are single lines
+function singleLine(value: string): string {
+  return value.replace(/\s*[\r\n]+\s*/g, ' ').trim();
+}
+
+/**
+ * Format metadata as `Version0-*` trailer lines for a backup commit message.
+ */
+export function formatBackupTrailers(metadata: IBackupMetadata): string[] {
+  const trailers: string[] = [];
+  const add = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') {
+      trailers.push(`${key}: ${singleLine(String(value))}`);
+    }
+  };
+  add(TRAILERS.version, metadata.version);
+  add(TRAILERS.createdAt, metadata.createdAt);
+  add(TRAILERS.trigger, metadata.trigger);
+  add(TRAILERS.sourceBranch, metadata.sourceBranch);
+  add(TRAILERS.headSha, metadata.headSha);
+  add(TRAILERS.hostname, metadata.hostname);
+  add(TRAILERS.changedFiles, metadata.changedFiles);
+  if (metadata.insertions !== undefined && metadata.deletions !== undefined) {
+    add(TRAILERS.diffstat, `+${metadata.insertions} -${metadata.deletions}`);
+  }
+  add(TRAILERS.note, metadata.note);
+  add(TRAILERS.redacted, metadata.redacted);
+  add(TRAILERS.lfsFiles, metadata.lfsFiles);
+  add(TRAILERS.skippedLargeFiles, metadata.skippedLargeFiles);
+  add(TRAILERS.encryption, metadata.encryption);
+  return trailers;
+}
+
+/**
+ * Read the `Version0-*` trailers back from a commit message. Unknown or malformed
+ * trailers are ignored, so backups made by older versions parse as partial metadata.
+ */
+export function parseBackupMetadata(message: string): IBackupMetadata {
+  const values = new Map<string, string>();
+  for (const line of message.split('\n')) {
+    const match = line.trim().match(TRAILER_LINE_PATTERN);
+    if (match) {
+      values.set(match[1], match[2].trim());
+    }
+  }
+
+  const metadata: IBackupMetadata = {
+    version: values.get(TRAILERS.version),
+    createdAt: values.get(TRAILERS.createdAt),
+    trigger: values.get(TRAILERS.trigger),
+    sourceBranch: values.get(TRAILERS.sourceBranch),
+    headSha: values.get(TRAILERS.headSha),
+    hostname: values.get(TRAILERS.hostname),
+    note: values.get(TRAILERS.note),
+    encryption: values.get(TRAILERS.encryption)
+  };
+  const changedFiles = parseInt(values.get(TRAILERS.changedFiles) || '', 10);
+  if (!isNaN(changedFiles)) {
+    metadata.changedFiles = changedFiles;
+  }
+  for (const key of ['redacted', 'lfsFiles', 'skippedLargeFiles'] as const) {
+    const count = parseInt(values.get(TRAILERS[key]) || '', 10);
+    if (!isNaN(count)) {
+      metadata[key] = count;
+    }
+  }
+  const diffstat = values.get(TRAILERS.diffstat)?.match(DIFFSTAT_PATTERN);
+  if (diffstat) {
+    metadata.insertions = parseInt(diffstat[1], 10);
+    metadata.deletions = parseInt(diffstat[2], 10);
+  }
+  if (metadata.createdAt && isNaN(Date.parse(metadata.createdAt))) {
+    metadata.createdAt = undefined;
+  }
+  return metadata;
+}
+
+/**
+ * Describe a backup branch from its head commit. Version, time and note come from the
+ * metadata; backups made before metadata was recorded fall back to the branch name and
+ * commit subject. Returns undefined for branches that are not Version0 backups.
+ *
+ * `fileCount` is used when the commit does not record its changed-file count.
+ */
+export function backupInfoFromCommit(
+  branchName: string,
+  sha: string,
+  committedAt: string,
+  message: string,
+  fileCount = 0
+): IBackupInfo | undefined {
+  const metadata = parseBackupMetadata(message);
+  const version = metadata.version || parseBackupBranchName(branchName)?.version;
+  if (!version) {
+    return undefined;
+  }
+  const subject = message.split('\n')[0];
+  const noteMatch = subject.match(/^Version0 Backup: v[\d.]+ - \S+ - (.*)$/);
+  return {
+    branchName,
+    version,
+    sha,
+    timestamp: metadata.createdAt || committedAt,
+    note: metadata.note ?? (noteMatch ? noteMatch[1] : undefined),
+    sourceBranch: metadata.sourceBranch,
+    trigger: metadata.trigger,
+    headSha: metadata.headSha,
+    hostname: metadata.hostname,
+    fileCount: metadata.changedFiles ?? fileCount,
+    insertions: metadata.insertions,
+    deletions: metadata.deletions,
+    encryptionKeyId: metadata.encryption?.split(' ')[1],
+    redacted: metadata.redacted
+  };
+}
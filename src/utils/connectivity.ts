@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import * as dns from 'dns';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseRepoUrl } from './repoUrl';
+
+const LOOKUP_TIMEOUT_MS = 5000;
+
+/**
+ * Best-effort check whether a backup target can be reached right now: the host of a
+ * remote URL must resolve, and the parent directory of a local target must exist (so an
+ * unplugged external drive counts as unreachable). Credentials are not checked.
+ */
+export async function isTargetReachable(url: string): Promise<boolean> {
+  const repoUrl = parseRepoUrl(url);
+  if (!repoUrl) {
+    const targetPath = url.startsWith('file://') ? vscode.Uri.parse(url).fsPath : url;
+    return fs.stat(path.dirname(targetPath)).then(() => true, () => false);
+  }
+
+  let timeout: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>(resolve => {
+    timeout = setTimeout(() => resolve(false), LOOKUP_TIMEOUT_MS);
+  });
+  const lookup = dns.promises.lookup(repoUrl.host).then(() => true, () => false);
+  try {
+    return await Promise.race([lookup, timedOut]);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
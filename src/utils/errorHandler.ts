@@ -9,6 +9,13 @@ export enum ErrorType {
   UNKNOWN = 'unknown'
 }
 
+/**
+ * Message of a caught value, which is not necessarily an Error.
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 export interface ErrorInfo {
   type: ErrorType;
   message: string;
@@ -30,7 +37,9 @@ export class Version0Error extends Error {
 export class ErrorHandler {
   private static instance: ErrorHandler;
 
-  private constructor() {}
+  private constructor() {
+    // Singleton: use getInstance()
+  }
 
   public static getInstance(): ErrorHandler {
     if (!ErrorHandler.instance) {
@@ -39,9 +48,13 @@ export class ErrorHandler {
     return ErrorHandler.instance;
   }
 
-  public handleError(error: unknown, context?: string): ErrorInfo {
+  /**
+   * Classify and report an error. `retry` re-runs the failed operation when the user
+   * picks "Retry" on a network error.
+   */
+  public handleError(error: unknown, context?: string, retry?: () => unknown): ErrorInfo {
     const errorInfo = this.analyzeError(error, context);
-    this.reportError(errorInfo);
+    this.reportError(errorInfo, retry);
     return errorInfo;
   }
 
@@ -147,7 +160,7 @@ export class ErrorHandler {
     };
   }
 
-  private reportError(errorInfo: ErrorInfo): void {
+  private reportError(errorInfo: ErrorInfo, retry?: () => unknown): void {
     const contextMessage = errorInfo.context ? ` (${errorInfo.context})` : '';
     const fullMessage = `Version0: ${errorInfo.message}${contextMessage}`;
     
@@ -173,16 +186,19 @@ export class ErrorHandler {
         });
         break;
 
-      case ErrorType.NETWORK:
+      case ErrorType.NETWORK: {
+        // Without an operation to re-run, retrying means uploading the queued backups
+        const retryAction = retry || (() => vscode.commands.executeCommand('version0.uploadPendingBackups'));
         vscode.window.showWarningMessage(
           fullMessage,
           'Retry'
         ).then(selection => {
           if (selection === 'Retry') {
-            // Could implement retry logic here
+            Promise.resolve(retryAction()).catch(() => undefined);
           }
         });
         break;
+      }
 
       case ErrorType.CONFIGURATION:
         vscode.window.showErrorMessage(
@@ -242,7 +258,7 @@ export class ErrorHandler {
         try {
           return await task(progress);
         } catch (error) {
-          this.handleError(error, title);
+          this.handleError(error, title, () => this.withProgress(title, task));
           throw error;
         }
       }
@@ -257,7 +273,7 @@ export class ErrorHandler {
     try {
       return await operation();
     } catch (error) {
-      this.handleError(error, context);
+      this.handleError(error, context, () => this.withErrorBoundary(operation, context, defaultValue));
       return defaultValue;
     }
   }
@@ -0,0 +1,139 @@
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { spawn } from 'child_process';
+
+/**
+ * Binary-safe helpers for reading and writing git objects. simple-git returns output as
+ * strings, which corrupts binary blobs, so these talk to git directly.
+ */
+
+export interface ITreeEntry {
+  mode: string;
+  type: string;
+  sha: string;
+  path: string;
+}
+
+/**
+ * Run git in `cwd`, feeding `input` to stdin, and return its raw stdout.
+ */
+export function runGit(cwd: string, args: string[], input?: Buffer, env?: NodeJS.ProcessEnv): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd, env: env || process.env });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`git ${args[0]} failed: ${Buffer.concat(stderr).toString().trim()}`));
+      }
+    });
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * True when `content` looks binary: like git, look for a NUL byte in the first 8000 bytes.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Absolute path of the repository's git directory.
+ */
+export async function getGitDir(cwd: string): Promise<string> {
+  return path.resolve(cwd, (await runGit(cwd, ['rev-parse', '--git-dir'])).toString().trim());
+}
+
+/**
+ * All entries of a tree, recursively. Submodules appear as 'commit' entries.
+ */
+export async function listTree(cwd: string, treeish: string): Promise<ITreeEntry[]> {
+  const output = await runGit(cwd, ['ls-tree', '-r', '-z', treeish]);
+  // '<mode> <type> <sha>\t<path>\0'
+  return output.toString('utf8').split('\0').filter(Boolean).map(line => {
+    const tab = line.indexOf('\t');
+    const [mode, type, sha] = line.slice(0, tab).split(' ');
+    return { mode, type, sha, path: line.slice(tab + 1) };
+  });
+}
+
+/**
+ * Raw contents of the given blobs, read with one `git cat-file --batch` call.
+ */
+export async function readBlobs(cwd: string, shas: string[]): Promise<Map<string, Buffer>> {
+  if (shas.length === 0) {
+    return new Map();
+  }
+  const output = await runGit(cwd, ['cat-file', '--batch'], Buffer.from(shas.join('\n') + '\n'));
+  const blobs = new Map<string, Buffer>();
+  let offset = 0;
+  while (offset < output.length) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    const [sha, type, size] = output.subarray(offset, headerEnd).toString().split(' ');
+    if (type === 'missing' || size === undefined) {
+      throw new Error(`Git object ${sha} is missing.`);
+    }
+    const start = headerEnd + 1;
+    const end = start + parseInt(size, 10);
+    blobs.set(sha, output.subarray(start, end));
+    offset = end + 1; // Skip the newline after the content
+  }
+  return blobs;
+}
+
+/**
+ * Sizes in bytes of the given objects, read with one `git cat-file --batch-check` call.
+ */
+export async function readObjectSizes(cwd: string, shas: string[]): Promise<Map<string, number>> {
+  if (shas.length === 0) {
+    return new Map();
+  }
+  const output = await runGit(cwd, ['cat-file', '--batch-check=%(objectname) %(objectsize)'], Buffer.from(shas.join('\n') + '\n'));
+  const sizes = new Map<string, number>();
+  for (const line of output.toString().split('\n')) {
+    const [sha, size] = line.split(' ');
+    if (sha && size !== undefined && size !== 'missing') {
+      sizes.set(sha, parseInt(size, 10));
+    }
+  }
+  return sizes;
+}
+
+/**
+ * Store `content` as a blob and return its sha.
+ */
+export async function writeBlob(cwd: string, content: Buffer): Promise<string> {
+  return (await runGit(cwd, ['hash-object', '-w', '--stdin'], content)).toString().trim();
+}
+
+/**
+ * Write a tree from a flat list of entries, using a temporary index so the real index is
+ * never touched.
+ */
+export async function writeTree(cwd: string, entries: ITreeEntry[]): Promise<string> {
+  const tempIndexPath = path.join(await getGitDir(cwd), `version0-tree-index-${process.pid}-${Date.now()}`);
+  const env = { ...process.env, GIT_INDEX_FILE: tempIndexPath };
+  const indexInfo = entries.map(e => `${e.mode} ${e.sha}\t${e.path}\0`).join('');
+  try {
+    await runGit(cwd, ['update-index', '-z', '--index-info'], Buffer.from(indexInfo), env);
+    return (await runGit(cwd, ['write-tree'], undefined, env)).toString().trim();
+  } finally {
+    await fs.rm(tempIndexPath, { force: true });
+  }
+}
+
+/**
+ * Write an annotated tag object for `objectSha` without creating a ref, and return its
+ * sha. The tagger is the configured committer.
+ */
+export async function writeTag(cwd: string, objectSha: string, tagName: string, message: string): Promise<string> {
+  const tagger = (await runGit(cwd, ['var', 'GIT_COMMITTER_IDENT'])).toString().trim();
+  const tag = `object ${objectSha}\ntype commit\ntag ${tagName}\ntagger ${tagger}\n\n${message.trim()}\n`;
+  return (await runGit(cwd, ['mktag'], Buffer.from(tag, 'utf8'))).toString().trim();
+}
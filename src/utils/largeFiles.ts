@@ -0,0 +1,110 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import { spawn } from 'child_process';
+import { ITreeEntry, getGitDir, listTree, readBlobs, readObjectSizes, runGit, writeBlob, writeTree } from './gitObjects';
+
+export interface ILargeFile extends ITreeEntry {
+  size: number;
+}
+
+const LFS_POINTER_VERSION = 'https://git-lfs.github.com/spec/v1';
+
+/**
+ * Human-readable file size, e.g. '120.5 MB'.
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Files of `treeSha` that differ from `baseTree` and are larger than `maxBytes`.
+ */
+export async function findLargeFiles(cwd: string, baseTree: string, treeSha: string, maxBytes: number): Promise<ILargeFile[]> {
+  const baseBlobs = new Map((await listTree(cwd, baseTree)).map(e => [e.path, e.sha]));
+  const changed = (await listTree(cwd, treeSha)).filter(e => e.type === 'blob' && baseBlobs.get(e.path) !== e.sha);
+  const sizes = await readObjectSizes(cwd, Array.from(new Set(changed.map(e => e.sha))));
+  return changed
+    .map(e => ({ ...e, size: sizes.get(e.sha) || 0 }))
+    .filter(e => e.size > maxBytes);
+}
+
+/**
+ * Whether the git-lfs extension is installed.
+ */
+export async function isLfsAvailable(cwd: string): Promise<boolean> {
+  return runGit(cwd, ['lfs', 'version']).then(() => true, () => false);
+}
+
+/**
+ * Write a copy of `treeSha` without the given files.
+ */
+export async function removeFromTree(cwd: string, treeSha: string, files: ILargeFile[]): Promise<string> {
+  const removed = new Set(files.map(f => f.path));
+  return writeTree(cwd, (await listTree(cwd, treeSha)).filter(e => !removed.has(e.path)));
+}
+
+/**
+ * Move the given files into the local Git LFS object store and write a copy of `treeSha`
+ * in which they are LFS pointers, with matching `.gitattributes` entries so a checkout
+ * restores their content. The objects still have to be pushed with `git lfs push`.
+ */
+export async function storeInLfs(cwd: string, treeSha: string, files: ILargeFile[]): Promise<string> {
+  const gitDir = await getGitDir(cwd);
+  const pointers = new Map<string, string>();
+  for (const file of files) {
+    const oid = await copyToLfsStore(cwd, gitDir, file.sha);
+    const pointer = `version ${LFS_POINTER_VERSION}\noid sha256:${oid}\nsize ${file.size}\n`;
+    pointers.set(file.path, await writeBlob(cwd, Buffer.from(pointer)));
+  }
+
+  const entries = (await listTree(cwd, treeSha)).map(e => ({ ...e, sha: pointers.get(e.path) ?? e.sha }));
+  const attributes = entries.find(e => e.path === '.gitattributes');
+  const existing = attributes ? (await readBlobs(cwd, [attributes.sha])).get(attributes.sha)?.toString('utf8') ?? '' : '';
+  const lines = files.map(f => `/${escapeAttributesPath(f.path)} filter=lfs diff=lfs merge=lfs -text`);
+  const content = `${existing}${existing && !existing.endsWith('\n') ? '\n' : ''}${lines.join('\n')}\n`;
+  const attributesEntry = { mode: '100644', type: 'blob', sha: await writeBlob(cwd, Buffer.from(content)), path: '.gitattributes' };
+  return writeTree(cwd, [...entries.filter(e => e.path !== '.gitattributes'), attributesEntry]);
+}
+
+// Patterns in .gitattributes are globs and cannot contain plain spaces
+function escapeAttributesPath(filePath: string): string {
+  return filePath.replace(/[\\*?[\]!#]/g, char => `\\${char}`).replace(/ /g, '[[:space:]]');
+}
+
+// Stream a blob into .git/lfs/objects/<oid[0:2]>/<oid[2:4]>/<oid> and return its oid
+async function copyToLfsStore(cwd: string, gitDir: string, blobSha: string): Promise<string> {
+  const tempPath = path.join(gitDir, `version0-lfs-${process.pid}-${Date.now()}`);
+  const hash = crypto.createHash('sha256');
+  try {
+    const child = spawn('git', ['cat-file', 'blob', blobSha], { cwd });
+    const output = createWriteStream(tempPath);
+    child.stdout.on('data', chunk => hash.update(chunk));
+    child.stdout.pipe(output);
+    await Promise.all([
+      new Promise<void>((resolve, reject) => {
+        child.on('error', reject);
+        child.on('close', code => code === 0 ? resolve() : reject(new Error(`git cat-file failed for ${blobSha}`)));
+      }),
+      new Promise<void>((resolve, reject) => {
+        output.on('error', reject);
+        output.on('finish', resolve);
+      })
+    ]);
+    const oid = hash.digest('hex');
+    const objectPath = path.join(gitDir, 'lfs', 'objects', oid.slice(0, 2), oid.slice(2, 4), oid);
+    await fs.mkdir(path.dirname(objectPath), { recursive: true });
+    await fs.rename(tempPath, objectPath);
+    return oid;
+  } finally {
+    await fs.rm(tempPath, { force: true });
+  }
+}
@@ -0,0 +1,67 @@
+import moment from 'moment';
+import { IBackupInfo, IMilestoneInfo } from '../types/interfaces';
+
+// Trailers that mark an annotated tag as a Version0 milestone
+const MILESTONE_TRAILER = 'Version0-Milestone';
+const BACKUP_TRAILER = 'Version0-Backup';
+
+const MILESTONE_TRAILER_PATTERN = /^Version0-Milestone: (\d+\.0)$/m;
+const BACKUP_TRAILER_PATTERN = /^Version0-Backup: (.+)$/m;
+
+/**
+ * Tag name of a milestone, e.g. `v2.0`.
+ */
+export function milestoneTagName(version: string): string {
+  return `v${version}`;
+}
+
+/**
+ * The version of the next milestone: the major version after the highest major.minor
+ * version in use, e.g. `2.0` after `1.7`. Only defined for the majorMinor version scheme.
+ */
+export function nextMilestoneVersion(versions: string[]): string {
+  const highestMajor = versions
+    .filter(version => /^\d+\.\d+$/.test(version))
+    .reduce((max, version) => Math.max(max, parseInt(version, 10)), 0);
+  return `${highestMajor + 1}.0`;
+}
+
+/**
+ * Release notes from the notes of the given backups, oldest first.
+ */
+export function formatReleaseNotes(backups: IBackupInfo[]): string {
+  const lines = backups
+    .filter(backup => backup.note)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(backup => `- ${backup.note} (v${backup.version}, ${moment(backup.timestamp).format('YYYY-MM-DD HH:mm')})`);
+  return lines.length > 0 ? lines.join('\n') : 'No backup notes since the last milestone.';
+}
+
+/**
+ * Message of a milestone tag: title, release notes and the trailers that identify it.
+ */
+export function formatMilestoneMessage(version: string, title: string, notes: string, branchName: string): string {
+  return `${title}\n\n${notes}\n\n${MILESTONE_TRAILER}: ${version}\n${BACKUP_TRAILER}: ${branchName}\n`;
+}
+
+/**
+ * Describe a milestone from its tag. Returns undefined for tags Version0 did not create.
+ */
+export function milestoneFromTag(tagName: string, sha: string, createdAt: string, message: string): IMilestoneInfo | undefined {
+  const version = message.match(MILESTONE_TRAILER_PATTERN);
+  const branch = message.match(BACKUP_TRAILER_PATTERN);
+  if (!version || !branch) {
+    return undefined;
+  }
+  const [title, ...rest] = message.split('\n');
+  const notes = rest.filter(line => !line.startsWith('Version0-')).join('\n').trim();
+  return {
+    tagName,
+    version: version[1],
+    title: title.trim(),
+    notes,
+    branchName: branch[1].trim(),
+    sha,
+    createdAt
+  };
+}
@@ -0,0 +1,155 @@
+export type RepoUrlProtocol = 'https' | 'http' | 'ssh' | 'git';
+
+export interface IRepoUrl {
+  /** Lower-case host name without a leading 'www.' */
+  host: string;
+  /** Non-default port, when the URL names one */
+  port?: number;
+  owner: string;
+  /** Repository name without the '.git' suffix */
+  repo: string;
+  protocol: RepoUrlProtocol;
+}
+
+// [user@]host:owner/repo(.git), the scp-like syntax git uses for SSH
+const SCP_LIKE_PATTERN = /^(?:[^@/\s]+@)?([^:/\s]+):(?!\/\/)(.+)$/;
+
+/**
+ * Parse any common git repository URL into its parts:
+ *
+ * - https://[user@]host[:port]/owner/repo[.git][/], also http:// and git+https://
+ * - ssh://[user@]host[:port]/owner/repo[.git], also git+ssh:// and ssh+git://
+ * - git://host/owner/repo[.git]
+ * - [user@]host:owner/repo[.git]
+ *
+ * Only the first two path segments are used, so web URLs such as
+ * https://github.com/owner/repo/tree/main parse as well. Returns undefined for
+ * anything that is not a repository URL, including local paths: a bare `owner/repo`
+ * cannot be told apart from a relative path such as `backups/repo`.
+ */
+export function parseRepoUrl(url: string): IRepoUrl | undefined {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  const schemeMatch = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+  if (schemeMatch) {
+    const protocol = schemeToProtocol(schemeMatch[1].toLowerCase());
+    if (!protocol) {
+      return undefined;
+    }
+    let parsed: URL;
+    try {
+      // URL only understands the authority of special schemes reliably, so parse as https
+      parsed = new URL(`https://${trimmed.slice(schemeMatch[0].length)}`);
+    } catch {
+      return undefined;
+    }
+    const port = parsed.port ? parseInt(parsed.port, 10) : undefined;
+    return fromPath(parsed.hostname, decodeURIComponent(parsed.pathname), protocol, port);
+  }
+
+  const scpMatch = trimmed.match(SCP_LIKE_PATTERN);
+  // A single letter before the colon is a Windows drive, not a host
+  if (scpMatch && scpMatch[1].length > 1) {
+    return fromPath(scpMatch[1], scpMatch[2], 'ssh');
+  }
+  return undefined;
+}
+
+function schemeToProtocol(scheme: string): RepoUrlProtocol | undefined {
+  switch (scheme) {
+    case 'https':
+    case 'git+https':
+      return 'https';
+    case 'http':
+    case 'git+http':
+      return 'http';
+    case 'ssh':
+    case 'git+ssh':
+    case 'ssh+git':
+      return 'ssh';
+    case 'git':
+      return 'git';
+    default:
+      return undefined;
+  }
+}
+
+function fromPath(host: string, repoPath: string, protocol: RepoUrlProtocol, port?: number): IRepoUrl | undefined {
+  const segments = repoPath.split('/').filter(Boolean);
+  if (segments.length < 2) {
+    return undefined;
+  }
+  const repo = segments[1].replace(/\.git$/i, '');
+  if (!repo) {
+    return undefined;
+  }
+  return {
+    host: normalizeHost(host),
+    port,
+    owner: segments[0],
+    repo,
+    protocol
+  };
+}
+
+/**
+ * Lower-case a host name and drop a leading 'www.', so www.github.com and github.com compare equal.
+ */
+export function normalizeHost(host: string): string {
+  return host.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * True when a parsed URL points at `host`, ignoring case and a leading 'www.'.
+ */
+export function isRepoOnHost(info: IRepoUrl, host: string): boolean {
+  return info.host === normalizeHost(host);
+}
+
+// host[:port] for web and HTTPS URLs; SSH and git daemon ports do not carry over
+function webAuthority(info: IRepoUrl): string {
+  return info.port && (info.protocol === 'https' || info.protocol === 'http') ? `${info.host}:${info.port}` : info.host;
+}
+
+/**
+ * HTTPS clone URL of the repository.
+ */
+export function toHttpsUrl(info: IRepoUrl): string {
+  return `https://${webAuthority(info)}/${info.owner}/${info.repo}.git`;
+}
+
+/**
+ * SSH clone URL of the repository: `git@host:owner/repo.git`, or an ssh:// URL when the
+ * repository was parsed from an SSH URL with a port, which the scp-like syntax cannot carry.
+ */
+export function toSshUrl(info: IRepoUrl): string {
+  if (info.port && info.protocol === 'ssh') {
+    return `ssh://git@${info.host}:${info.port}/${info.owner}/${info.repo}.git`;
+  }
+  return `git@${info.host}:${info.owner}/${info.repo}.git`;
+}
+
+/**
+ * True when two URLs name the same repository, whatever form each is written in.
+ * Host, owner and repository names compare case-insensitively, as on GitHub.
+ */
+export function isSameRepository(a: string, b: string): boolean {
+  const aInfo = parseRepoUrl(a);
+  const bInfo = parseRepoUrl(b);
+  if (!aInfo || !bInfo) {
+    return a.trim() === b.trim();
+  }
+  return toHttpsUrl(aInfo).toLowerCase() === toHttpsUrl(bInfo).toLowerCase();
+}
+
+/**
+ * Web page of the repository, on `webBaseUrl` when given (e.g. a GitHub Enterprise
+ * Server URL) or on the repository host otherwise.
+ */
+export function toWebUrl(info: IRepoUrl, webBaseUrl?: string): string {
+  const base = webBaseUrl ? webBaseUrl.replace(/\/+$/, '') : `https://${webAuthority(info)}`;
+  return `${base}/${info.owner}/${info.repo}`;
+}
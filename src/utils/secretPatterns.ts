@@ -0,0 +1,164 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { ISecretFinding } from '../types/interfaces';
+
+interface ISecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+  /** Capture group holding the secret; the whole match when omitted */
+  group?: number;
+  /** Minimum Shannon entropy (bits per character) of the secret */
+  minEntropy?: number;
+  /** Extra check on the secret to weed out false positives */
+  accept?: (secret: string) => boolean;
+}
+
+// A finding together with where its secret sits in the scanned text
+export interface ISecretMatch extends ISecretFinding {
+  start: number;
+  end: number;
+}
+
+const SECRET_NAME = '[A-Za-z0-9_.-]*(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credentials?|auth)[A-Za-z0-9_.-]*';
+
+const CONTENT_RULES: ISecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|$)/g
+  },
+  { id: 'aws-access-key-id', description: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws[A-Za-z0-9_.-]*secret[A-Za-z0-9_.-]*['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1
+  },
+  { id: 'github-token', description: 'GitHub token', pattern: /\b(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,}\b/g },
+  { id: 'github-fine-grained-token', description: 'GitHub fine-grained token', pattern: /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g },
+  { id: 'slack-token', description: 'Slack token', pattern: /\bxox[baprs]-[A-Za-z0-9-]{10,}\b/g },
+  { id: 'stripe-key', description: 'Stripe live key', pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/g },
+  { id: 'google-api-key', description: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'npm-token', description: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  {
+    id: 'url-credentials',
+    description: 'Password in URL',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/'"]+:([^\s:@/'"]{3,})@/gi,
+    group: 1
+  },
+  {
+    id: 'high-entropy-secret',
+    description: 'High-entropy value assigned to a secret-like name',
+    pattern: new RegExp(`${SECRET_NAME}['"]?\\s*[:=]\\s*['"]?([A-Za-z0-9+/=_\\-.~]{16,})`, 'gi'),
+    group: 1,
+    minEntropy: 3.5,
+    // Generated secrets mix letters and digits; references like `process.env.API_TOKEN` do not
+    accept: secret => /\d/.test(secret) && /[A-Za-z]/.test(secret) && !/^[\w$]+(\.[\w$]+)+$/.test(secret)
+  }
+];
+
+// File names that hold credentials whatever their content
+const RISKY_FILE_RULES: { id: string; description: string; test: (name: string) => boolean }[] = [
+  { id: 'env-file', description: 'Environment file', test: name => /^\.env(\..+)?$/.test(name) && !/\.(example|sample|template|dist)$/.test(name) },
+  { id: 'ssh-private-key', description: 'SSH private key', test: name => /^id_(rsa|dsa|ecdsa|ed25519)$/.test(name) },
+  { id: 'key-file', description: 'Key or certificate store', test: name => /\.(pem|key|p12|pfx|jks|keystore|kdbx)$/i.test(name) },
+  { id: 'credentials-file', description: 'Credentials file', test: name => ['.netrc', '_netrc', '.pgpass', '.htpasswd', 'credentials', 'credentials.json'].includes(name) }
+];
+
+// Placeholder written over redacted secrets
+function redactionMarker(ruleId: string): string {
+  return `[REDACTED:${ruleId}]`;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function fingerprint(ruleId: string, filePath: string, secret: string): string {
+  return crypto.createHash('sha256').update(`${ruleId}\0${filePath}\0${secret}`).digest('hex').slice(0, 16);
+}
+
+// Enough of a secret to recognise it in a report, but not to use it
+function preview(secret: string): string {
+  const firstLine = secret.split('\n')[0];
+  if (firstLine.startsWith('-----BEGIN')) {
+    return firstLine;
+  }
+  return `${secret.slice(0, 4)}${'*'.repeat(Math.min(8, Math.max(0, secret.length - 4)))} (${secret.length} chars)`;
+}
+
+/**
+ * Report a file whose name suggests it holds credentials.
+ */
+export function scanFileName(filePath: string): ISecretFinding | undefined {
+  const name = path.posix.basename(filePath);
+  const rule = RISKY_FILE_RULES.find(r => r.test(name));
+  return rule && {
+    path: filePath,
+    rule: rule.id,
+    description: rule.description,
+    preview: name,
+    fingerprint: fingerprint(rule.id, filePath, '')
+  };
+}
+
+/**
+ * Find known secret patterns in the text of a file. Matches of different rules never
+ * overlap; the rule listed first wins.
+ */
+export function scanFileContent(filePath: string, text: string): ISecretMatch[] {
+  const matches: ISecretMatch[] = [];
+  for (const rule of CONTENT_RULES) {
+    rule.pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = rule.pattern.exec(text)) !== null) {
+      const secret = rule.group ? match[rule.group] : match[0];
+      if (match[0].length === 0) {
+        rule.pattern.lastIndex++;
+        continue;
+      }
+      if (!secret || (rule.minEntropy && shannonEntropy(secret) < rule.minEntropy) || (rule.accept && !rule.accept(secret))) {
+        continue;
+      }
+      const start = match.index + (rule.group ? match[0].lastIndexOf(secret) : 0);
+      const end = start + secret.length;
+      if (matches.some(m => start < m.end && m.start < end)) {
+        continue;
+      }
+      matches.push({
+        path: filePath,
+        line: text.slice(0, start).split('\n').length,
+        rule: rule.id,
+        description: rule.description,
+        preview: preview(secret),
+        fingerprint: fingerprint(rule.id, filePath, secret),
+        start,
+        end
+      });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace the given matches in `text` with redaction markers.
+ */
+export function redactContent(text: string, matches: ISecretMatch[]): string {
+  let result = '';
+  let offset = 0;
+  for (const match of [...matches].sort((a, b) => a.start - b.start)) {
+    result += text.slice(offset, match.start) + redactionMarker(match.rule);
+    offset = match.end;
+  }
+  return result + text.slice(offset);
+}